@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ChatDelivery } from '../src/services/chatDelivery';
+import type { PublishedItem } from '../src/services/feedItemStore';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+function item(sequence: number, sourceId: string): PublishedItem {
+  return {
+    sequence,
+    sourceIds: [sourceId],
+    tweet: {
+      id: String(sequence),
+      text: `tweet number ${sequence}`,
+      author: { username: 'alice', name: 'Alice' },
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      url: `https://twitter.com/alice/status/${sequence}`,
+      isRetweet: false,
+      isReply: false,
+    },
+  };
+}
+
+async function createDelivery(channels: unknown[]) {
+  const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-chat-'));
+  await fs.writeFile(
+    path.join(stateDir, 'chat_channels.json'),
+    JSON.stringify({ channels })
+  );
+  const send = vi.fn().mockResolvedValue(undefined);
+  const delivery = ChatDelivery.fromStateDir(stateDir, send, {
+    maxPerHour: 3,
+    describeSource: (id) => (id === '111' ? 'News' : id),
+  });
+  const cleanup = () => fs.rm(stateDir, { recursive: true, force: true });
+  return { delivery, send, cleanup };
+}
+
+describe('ChatDelivery', () => {
+  it('posts subscribed lists per tweet and folds the overflow into a digest', async () => {
+    const { delivery, send, cleanup } = await createDelivery([
+      { id: 'news', source: 'discord', channelId: 'c1', lists: ['111'] },
+    ]);
+    try {
+      const items = [1, 2, 3, 4].map((n) => item(n, '111'));
+      expect(await delivery.enqueue([...items, item(5, '222')])).toBe(3);
+
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(send.mock.calls[0][0]).toEqual(
+        expect.objectContaining({ source: 'discord', channelId: 'c1' })
+      );
+      expect(send.mock.calls[0][1].text).toBe(
+        '**@alice** in News\ntweet number 1\nhttps://twitter.com/alice/status/1'
+      );
+      const digest = send.mock.calls[2][1].text;
+      expect(digest).toContain('**2 new tweets** in News');
+      expect(digest).toContain('• @alice: tweet number 3');
+      expect(digest).toContain('tweet number 4');
+      expect(digest).not.toContain('tweet number 5');
+
+      // The hourly limit is used up, so the next tweet waits.
+      expect(await delivery.enqueue([item(6, '111')])).toBe(0);
+      expect(await delivery.flush(Date.now() + 61 * 60 * 1000)).toBe(1);
+      expect(send.mock.calls[3][1].text).toContain('tweet number 6');
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('batches digest channels and keeps tweets whose post failed', async () => {
+    const { delivery, send, cleanup } = await createDelivery([
+      {
+        id: 'daily',
+        source: 'telegram',
+        channelId: 'c2',
+        mode: 'digest',
+        digestMinutes: 60,
+      },
+    ]);
+    try {
+      send.mockRejectedValueOnce(new Error('no telegram client'));
+      expect(await delivery.enqueue([item(1, '111')])).toBe(0);
+
+      expect(await delivery.enqueue([item(2, '222')])).toBe(1);
+      expect(send.mock.calls[1][1].text).toMatch(
+        /^\*\*2 new tweets\*\* in News, 222/
+      );
+
+      // Within the digest interval nothing is posted.
+      expect(await delivery.enqueue([item(3, '111')])).toBe(0);
+      expect(await delivery.flush(Date.now() + 60 * 60 * 1000)).toBe(1);
+      expect(send.mock.calls[2][1].text).toContain('**1 new tweet** in News');
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('delivers what a run publishes through the runtime', async () => {
+    const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-chat-'));
+    await fs.writeFile(
+      path.join(stateDir, 'chat_channels.json'),
+      JSON.stringify({
+        channels: [{ id: 'news', source: 'discord', channelId: 'c1' }],
+      })
+    );
+    const now = Math.floor(Date.now() / 1000);
+    const sendMessageToTarget = vi.fn().mockResolvedValue(undefined);
+    const runtime = createMockRuntime({
+      sendMessageToTarget,
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR')
+          return stateDir;
+        if (key === 'TWITTER_LISTS') return '111:News';
+        if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+        return undefined;
+      }),
+    });
+    const service = new TwitterRSSService(
+      runtime as any,
+      createMockFetcher({
+        fetchListTweets: vi.fn(async () => [
+          {
+            id: '1',
+            text: 'a tweet long enough',
+            username: 'a',
+            timestamp: now,
+          },
+        ]),
+      })
+    );
+    try {
+      await service.processAllLists();
+      for (
+        let i = 0;
+        i < 50 && sendMessageToTarget.mock.calls.length === 0;
+        i++
+      ) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(sendMessageToTarget).toHaveBeenCalledWith(
+        expect.objectContaining({ source: 'discord', channelId: 'c1' }),
+        expect.objectContaining({
+          text: expect.stringContaining('**@a** in News\na tweet long enough'),
+        })
+      );
+    } finally {
+      await service.stop();
+      await fs.rm(stateDir, { recursive: true, force: true });
+    }
+  });
+});
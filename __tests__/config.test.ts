@@ -1,4 +1,5 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { logger } from '@elizaos/core';
 import plugin from '../src/plugin';
 
 describe('Plugin Configuration', () => {
@@ -8,4 +9,16 @@ describe('Plugin Configuration', () => {
       expect(true).toBe(true);
     }
   });
+
+  it('init reports unusable PROXY_URL entries instead of failing', async () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    try {
+      await plugin.init?.({ PROXY_URL: 'http://a:1,socks5h://b:2' }, {} as any);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('PROXY_URL entry 2: socks5h: is not supported')
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
 });
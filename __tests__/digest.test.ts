@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { ModelType } from '@elizaos/core';
+import plugin from '../src/plugin';
+import { RSSServerService } from '../src/services/rssServerService';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { renderDigestHtml } from '../src/services/digest';
+import { parseDigestSchedule } from '../src/schedule';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+const BRIEFING =
+  '## News\n- A release shipped ([@a](https://twitter.com/a/status/1))';
+
+async function createService() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-digest-'));
+  const now = Math.floor(Date.now() / 1000);
+  const useModel = vi.fn().mockResolvedValue(BRIEFING);
+  const runtime = createMockRuntime({
+    useModel,
+    getSetting: vi.fn((key: string) => {
+      if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return dir;
+      if (key === 'TWITTER_LISTS') return '111:News,222:Research';
+      if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+      return undefined;
+    }),
+  });
+  const fetchListTweets = vi.fn(async (listId: string) =>
+    listId === '111'
+      ? [
+          {
+            id: '1',
+            text: 'a new release is out',
+            username: 'a',
+            timestamp: now,
+          },
+        ]
+      : [{ id: '2', text: 'a paper on feeds', username: 'b', timestamp: now }]
+  );
+  const service = new TwitterRSSService(
+    runtime as any,
+    createMockFetcher({ fetchListTweets })
+  );
+  runtime.getService = vi.fn().mockReturnValue(service);
+  const cleanup = () => fs.rm(dir, { recursive: true, force: true });
+  return { service, runtime, useModel, fetchListTweets, dir, cleanup };
+}
+
+describe('Digest', () => {
+  it('summarizes new tweets by list and publishes them in the digest feed', async () => {
+    const { service, runtime, useModel, dir, cleanup } = await createService();
+    try {
+      await service.processAllLists();
+      const digest = await service.generateDigest();
+
+      expect(digest).toMatchObject({
+        tweetCount: 2,
+        sources: { '111': 1, '222': 1 },
+        summary: BRIEFING,
+      });
+      expect(useModel).toHaveBeenCalledWith(ModelType.TEXT_LARGE, {
+        prompt: expect.any(String),
+      });
+      const prompt: string = useModel.mock.calls[0][1].prompt;
+      expect(prompt.indexOf('### News')).toBeLessThan(
+        prompt.indexOf('### Research')
+      );
+      expect(prompt).toMatch(
+        /- @a \(\d{4}-[^)]+\): a new release is out <https:\/\/twitter\.com\/a\/status\/1>/
+      );
+
+      const rss = await fs.readFile(path.join(dir, 'digest.xml'), 'utf-8');
+      expect(rss).toContain('<title>Digest of 2 tweets</title>');
+      expect(rss).toContain('<a href="https://twitter.com/a/status/1">@a</a>');
+      expect(rss).toContain('/rss/digest" rel="self"');
+
+      const server = (new RSSServerService(runtime as any) as any).app.listen(
+        0
+      );
+      await new Promise((resolve) => server.once('listening', resolve));
+      try {
+        const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const response = await fetch(`${baseUrl}/feed/digest`, {
+          headers: { Accept: 'application/feed+json' },
+        });
+        expect(response.status).toBe(200);
+        expect((await response.json()).items[0].id).toBe(digest!.id);
+      } finally {
+        server.close();
+      }
+
+      // Nothing was published since, so the model is not asked again.
+      expect(await service.generateDigest()).toBeNull();
+      expect(useModel).toHaveBeenCalledTimes(1);
+    } finally {
+      await service.stop();
+      await cleanup();
+    }
+  });
+
+  it('starts over when the feed items were reset after the last digest', async () => {
+    const { service, useModel, dir, cleanup } = await createService();
+    try {
+      await fs.writeFile(
+        path.join(dir, 'digests.json'),
+        JSON.stringify([
+          {
+            id: 'old',
+            createdAt: new Date().toISOString(),
+            sequence: 50,
+            tweetCount: 50,
+            sources: { '111': 50 },
+            summary: BRIEFING,
+          },
+        ])
+      );
+      await service.processAllLists();
+
+      expect(await service.generateDigest()).toMatchObject({
+        sequence: 2,
+        tweetCount: 2,
+      });
+      expect(await service.generateDigest()).toBeNull();
+      expect(useModel).toHaveBeenCalledTimes(1);
+    } finally {
+      await service.stop();
+      await cleanup();
+    }
+  });
+
+  it('answers GENERATE_RSS_DIGEST with the briefing', async () => {
+    const { service, runtime, cleanup } = await createService();
+    const action = plugin.actions?.find(
+      (a) => a.name === 'GENERATE_RSS_DIGEST'
+    );
+    if (!action) throw new Error('GENERATE_RSS_DIGEST missing');
+    try {
+      const message = { content: { text: 'digest please', source: 'test' } };
+      expect(await action.validate(runtime, message as any, {} as any)).toBe(
+        true
+      );
+
+      const callback = vi.fn();
+      await action.handler(runtime, message as any, {} as any, {}, callback);
+      expect(callback.mock.calls[0][0].text).toBe(
+        '📭 No new tweets since the last digest.'
+      );
+
+      await service.processAllLists();
+      await action.handler(runtime, message as any, {} as any, {}, callback);
+      expect(callback.mock.calls[1][0]).toMatchObject({
+        text: expect.stringContaining(BRIEFING),
+        actions: ['GENERATE_RSS_DIGEST'],
+      });
+    } finally {
+      await service.stop();
+      await cleanup();
+    }
+  });
+
+  it('parses digest schedules and renders model Markdown safely', () => {
+    expect(parseDigestSchedule('daily')).toBe('0 7 * * *');
+    expect(parseDigestSchedule('hourly')).toBe('0 * * * *');
+    expect(parseDigestSchedule('*/15 * * * *')).toBe('*/15 * * * *');
+    expect(parseDigestSchedule('weekly-ish')).toBeNull();
+    expect(parseDigestSchedule(undefined)).toBeNull();
+
+    expect(
+      renderDigestHtml(
+        '## Topic <b>\n- **Big** news [link](https://x.com/a?b=1&c=2)\n\nClosing line'
+      )
+    ).toBe(
+      '<h2>Topic &lt;b&gt;</h2>\n' +
+        '<ul><li><strong>Big</strong> news <a href="https://x.com/a?b=1&amp;c=2">link</a></li></ul>\n' +
+        '<p>Closing line</p>'
+    );
+  });
+});
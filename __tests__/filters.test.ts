@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  NO_INCLUDE_MATCH,
+  TweetFilter,
+  createFilterReport,
+} from '../src/filters';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import type { TweetData } from '../src/types';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+const tweet = (overrides: Partial<TweetData> = {}): TweetData => ({
+  id: '1',
+  text: 'Shipping a new release today',
+  author: { username: 'alice', name: 'Alice' },
+  createdAt: new Date(),
+  url: 'https://twitter.com/alice/status/1',
+  isRetweet: false,
+  isReply: false,
+  media: [],
+  metrics: { likes: 5, retweets: 1, replies: 0 },
+  ...overrides,
+});
+
+describe('TweetFilter', () => {
+  let dir: string;
+  let filter: TweetFilter;
+
+  const writeRules = async (rules: unknown) => {
+    await fs.writeFile(path.join(dir, 'filters.json'), JSON.stringify(rules));
+    await filter.load();
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-filters-'));
+    filter = TweetFilter.fromStateDir(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps everything without a rule file', async () => {
+    await filter.load();
+    expect(filter.evaluate(tweet())).toBeNull();
+  });
+
+  it('drops tweets matching exclude rules by keyword, regex and author', async () => {
+    await writeRules({
+      global: {
+        exclude: [
+          { name: 'no-giveaways', keywords: ['GIVEAWAY'] },
+          { regex: '\\bairdrop\\b' },
+          { authors: ['@spammer'] },
+        ],
+      },
+    });
+    expect(filter.evaluate(tweet({ text: 'Big giveaway!' }))).toBe(
+      'no-giveaways'
+    );
+    expect(filter.evaluate(tweet({ text: 'Claim your AIRDROP now' }))).toBe(
+      'global.exclude[1]'
+    );
+    expect(
+      filter.evaluate(tweet({ author: { username: 'Spammer', name: 'Spam' } }))
+    ).toBe('global.exclude[2]');
+    expect(filter.evaluate(tweet())).toBeNull();
+  });
+
+  it('requires a matching include rule per list', async () => {
+    await writeRules({
+      lists: {
+        '111': {
+          include: [
+            { name: 'popular', minLikes: 100 },
+            { hasMedia: true, languages: ['en'] },
+          ],
+        },
+      },
+    });
+    expect(filter.evaluate(tweet(), '222')).toBeNull();
+    expect(filter.evaluate(tweet(), '111')).toBe(NO_INCLUDE_MATCH);
+    expect(
+      filter.evaluate(
+        tweet({ metrics: { likes: 150, retweets: 0, replies: 0 } }),
+        '111'
+      )
+    ).toBeNull();
+    expect(
+      filter.evaluate(
+        tweet({ lang: 'en', media: [{ type: 'image', url: 'x.jpg' }] }),
+        '111'
+      )
+    ).toBeNull();
+  });
+
+  it('keeps the previous rules when the file is invalid', async () => {
+    await writeRules({ global: { exclude: [{ keywords: ['spam'] }] } });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await writeRules({ global: { exclude: [{ regex: '(' }] } });
+    expect(filter.evaluate(tweet({ text: 'spam' }))).toBe('global.exclude[0]');
+  });
+
+  it('reports drops per rule from the service pipeline', async () => {
+    await fs.writeFile(
+      path.join(dir, 'filters.json'),
+      JSON.stringify({
+        global: { exclude: [{ name: 'no-rt', keywords: ['RT'] }] },
+      })
+    );
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return dir;
+        if (key === 'FILTER_REPLIES') return 'true';
+        return undefined;
+      }),
+    });
+    const fetcher = createMockFetcher({
+      fetchListTweets: vi.fn().mockResolvedValue([
+        { id: '1', text: 'RT something' },
+        { id: '2', text: 'a reply', isReply: true },
+        { id: '3', text: 'keep me' },
+      ]),
+    });
+    const service = new TwitterRSSService(runtime as any, fetcher);
+    await (service as any).tweetFilter.load();
+    const report = createFilterReport();
+    const tweets = await service.fetchListTweets('111', 50, report);
+    expect(tweets.map((t) => t.id)).toEqual(['3']);
+    expect(report).toEqual({
+      evaluated: 3,
+      kept: 1,
+      dropped: { 'no-rt': 1, FILTER_REPLIES: 1 },
+    });
+  });
+});
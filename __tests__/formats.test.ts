@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FEED_FORMATS,
+  NEGOTIABLE_MEDIA_TYPES,
+  feedFilename,
+  feedRoute,
+} from '../src/formats';
+import { primaryImage, renderTweetHtml } from '../src/formats/html';
+import type { FeedModel, TweetData } from '../src/types';
+
+const feed: FeedModel = {
+  title: 'Test Feed',
+  description: 'Tweets & more',
+  link: 'https://twitter.com/i/lists/1',
+  updated: new Date('2024-01-02T00:00:00Z'),
+  items: [
+    {
+      id: '42',
+      title: '@alice: hello <world>',
+      content: 'hello <world>',
+      contentHtml: '<p>hello &lt;world&gt;</p>',
+      image: { url: 'https://pbs.twimg.com/media/a.png', type: 'image/png' },
+      link: 'https://twitter.com/alice/status/42',
+      published: new Date('2024-01-02T00:00:00Z'),
+      author: {
+        name: 'Alice',
+        username: 'alice',
+        url: 'https://twitter.com/alice',
+      },
+      categories: ['tweet'],
+    },
+  ],
+};
+
+describe('Feed formats', () => {
+  it('renders RSS 2.0 with a self link', () => {
+    const xml = FEED_FORMATS.rss.render(feed, 'http://localhost:3001/rss');
+    expect(xml).toContain('<rss version="2.0"');
+    expect(xml).toContain('href="http://localhost:3001/rss"');
+    expect(xml).toContain('<guid isPermaLink="false">42</guid>');
+    expect(xml).toContain('<![CDATA[<p>hello &lt;world&gt;</p>]]>');
+    expect(xml).toContain('<content:encoded>');
+    expect(xml).toContain(
+      '<enclosure url="https://pbs.twimg.com/media/a.png" type="image/png" length="0">'
+    );
+    expect(xml).toContain('medium="image"');
+  });
+
+  it('renders Atom 1.0 with stable ids and updated times', () => {
+    const xml = FEED_FORMATS.atom.render(feed, 'http://localhost:3001/atom');
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(xml).toContain('<id>http://localhost:3001/atom</id>');
+    expect(xml).toContain('<updated>2024-01-02T00:00:00.000Z</updated>');
+    expect(xml).toContain('<id>https://twitter.com/alice/status/42</id>');
+    expect(xml).toContain('<content type="html">');
+    expect(xml).toContain('rel="enclosure"');
+  });
+
+  it('renders JSON Feed 1.1', () => {
+    const json = JSON.parse(
+      FEED_FORMATS.json.render(feed, 'http://localhost:3001/feed.json')
+    );
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.feed_url).toBe('http://localhost:3001/feed.json');
+    expect(json.items[0]).toMatchObject({
+      id: '42',
+      url: 'https://twitter.com/alice/status/42',
+      content_text: 'hello <world>',
+      content_html: '<p>hello &lt;world&gt;</p>',
+      image: 'https://pbs.twimg.com/media/a.png',
+      date_published: '2024-01-02T00:00:00.000Z',
+    });
+  });
+
+  it('maps formats to files, routes and media types', () => {
+    expect(feedFilename()).toBe('twitter_lists.xml');
+    expect(feedFilename('1', 'atom')).toBe('lists/1.atom');
+    expect(feedFilename('../x', 'json')).toBe('lists/___x.json');
+    expect(feedRoute('json', '1')).toBe('/feed.json/lists/1');
+    expect(NEGOTIABLE_MEDIA_TYPES['application/atom+xml']).toBe('atom');
+  });
+});
+
+describe('Tweet HTML rendering', () => {
+  const tweet = (overrides: Partial<TweetData> = {}): TweetData => ({
+    id: '1',
+    text: 'see https://example.com <b>',
+    author: { username: 'alice', name: 'Alice' },
+    createdAt: new Date('2024-01-02T00:00:00Z'),
+    url: 'https://twitter.com/alice/status/1',
+    isRetweet: false,
+    isReply: false,
+    ...overrides,
+  });
+
+  it('links the author, escapes text and inlines images', () => {
+    const html = renderTweetHtml(
+      tweet({ media: [{ type: 'image', url: 'https://pbs.twimg.com/a.jpg' }] })
+    );
+    expect(html).toContain('<a href="https://twitter.com/alice">');
+    expect(html).toContain('&lt;b&gt;');
+    expect(html).toContain('<a href="https://example.com">');
+    expect(html).toContain('<img src="https://pbs.twimg.com/a.jpg"');
+  });
+
+  it('renders quoted and retweeted tweets as blockquotes', () => {
+    const quoted = tweet({ id: '2', text: 'quoted text' });
+    const original = tweet({
+      id: '3',
+      text: 'original text',
+      author: { username: 'bob', name: 'Bob' },
+      quotedTweet: quoted,
+    });
+    const html = renderTweetHtml(
+      tweet({ isRetweet: true, retweetedTweet: original })
+    );
+    expect(html).toContain('retweeted</p>');
+    expect(html.match(/<blockquote>/g)).toHaveLength(2);
+    expect(html).toContain('original text');
+    expect(html).toContain('quoted text');
+  });
+
+  it('renders threads as an ordered list', () => {
+    const html = renderTweetHtml(
+      tweet({ thread: [tweet({ id: '4', text: 'reply one' })] })
+    );
+    expect(html).toContain('<ol><li>');
+    expect(html).toContain('reply one');
+  });
+
+  it('picks the primary image from the tweet or what it quotes', () => {
+    const quoted = tweet({
+      id: '5',
+      media: [{ type: 'image', url: 'https://pbs.twimg.com/q.png' }],
+    });
+    expect(primaryImage(tweet({ quotedTweet: quoted }))).toEqual({
+      url: 'https://pbs.twimg.com/q.png',
+      type: 'image/png',
+    });
+    expect(primaryImage(tweet())).toBeUndefined();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { RSSServerService } from '../src/services/rssServerService';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+async function startServer(failingList?: string) {
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-health-'));
+  const now = Math.floor(Date.now() / 1000);
+  const runtime = createMockRuntime({
+    getSetting: vi.fn((key: string) => {
+      if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return outputDir;
+      if (key === 'TWITTER_LISTS') return '111,222';
+      if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+      if (key === 'FETCH_MAX_RETRIES') return '0';
+      if (key === 'RSS_READY_MAX_CONSECUTIVE_FAILURES') return '2';
+      if (key === 'RSS_API_TOKEN') return 'secret';
+      return undefined;
+    }),
+  });
+  const twitterService = new TwitterRSSService(
+    runtime as any,
+    createMockFetcher({
+      fetchListTweets: vi.fn(async (listId: string) => {
+        if (listId === failingList) throw new Error('Response status: 404');
+        return [
+          {
+            id: listId,
+            text: 'a tweet long enough',
+            username: 'a',
+            timestamp: now,
+          },
+        ];
+      }),
+    })
+  );
+  runtime.getService = vi.fn().mockReturnValue(twitterService);
+  const server = (new RSSServerService(runtime as any) as any).app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const close = async () => {
+    server.close();
+    await fs.rm(outputDir, { recursive: true, force: true });
+  };
+  return { twitterService, baseUrl, close };
+}
+
+const withToken = { headers: { Authorization: 'Bearer secret' } };
+
+describe('Health checks', () => {
+  it('serves liveness without a token and reports readiness', async () => {
+    const { twitterService, baseUrl, close } = await startServer();
+    try {
+      const live = await fetch(`${baseUrl}/health/live`);
+      expect(live.status).toBe(200);
+      expect((await live.json()).status).toBe('healthy');
+
+      (twitterService as any).isLoggedIn = true;
+      (twitterService as any).schedulerStarted = true;
+      await twitterService.processAllLists();
+
+      const ready = await fetch(`${baseUrl}/health/ready`, withToken);
+      expect(ready.status).toBe(200);
+      const body = await ready.json();
+      expect(body.status).toBe('ready');
+      expect(Object.keys(body.checks)).toEqual([
+        'scheduler',
+        'authentication',
+        'lastRun',
+        'outputDir',
+        'stateDir',
+        'sources',
+      ]);
+      expect(
+        Object.values(body.checks).every(
+          (check: any) => check.status === 'pass'
+        )
+      ).toBe(true);
+    } finally {
+      await close();
+    }
+  });
+
+  it('answers 503 when logged out or a list keeps failing', async () => {
+    const { twitterService, baseUrl, close } = await startServer('222');
+    try {
+      (twitterService as any).isLoggedIn = true;
+      (twitterService as any).schedulerStarted = true;
+      await twitterService.processAllLists();
+      expect((await fetch(`${baseUrl}/health/ready`)).status).toBe(200);
+
+      await twitterService.processAllLists();
+      (twitterService as any).isLoggedIn = false;
+      const response = await fetch(`${baseUrl}/health/ready`, withToken);
+      expect(response.status).toBe(503);
+      const body = await response.json();
+      expect(body.status).toBe('degraded');
+      expect(body.checks.authentication.status).toBe('fail');
+      expect(body.checks.sources).toEqual({
+        status: 'fail',
+        message:
+          'Failed 2 or more consecutive runs: 222 (Response status: 404)',
+      });
+      expect(body.checks.lastRun.status).toBe('pass');
+      expect(body.checks.outputDir.status).toBe('pass');
+    } finally {
+      await close();
+    }
+  });
+
+  it('gives probes without a valid token only the status', async () => {
+    const { twitterService, baseUrl, close } = await startServer('222');
+    try {
+      (twitterService as any).isLoggedIn = true;
+      (twitterService as any).schedulerStarted = true;
+      await twitterService.processAllLists();
+      await twitterService.processAllLists();
+
+      for (const init of [{}, { headers: { Authorization: 'Bearer nope' } }]) {
+        const response = await fetch(`${baseUrl}/health/ready`, init);
+        expect(response.status).toBe(503);
+        expect(await response.json()).toEqual({ status: 'degraded' });
+      }
+      const detailed = await fetch(`${baseUrl}/health/ready`, withToken);
+      expect((await detailed.json()).checks.sources.message).toContain(
+        'Response status: 404'
+      );
+    } finally {
+      await close();
+    }
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import plugin from '../src/plugin';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { parseListName } from '../src/actions/manageLists';
+import { parseListReference } from '../src/sources';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+const ADMIN = 'admin-entity';
+
+async function createService() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-lists-'));
+  const now = Math.floor(Date.now() / 1000);
+  const runtime = createMockRuntime({
+    getSetting: vi.fn((key: string) => {
+      if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return dir;
+      if (key === 'TWITTER_LISTS') return '1110000000:News';
+      if (key === 'RSS_LIST_ADMINS') return `someone-else, ${ADMIN}`;
+      if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+      if (key === 'RSS_SKIP_INITIAL_RUN') return 'true';
+      return undefined;
+    }),
+  });
+  const fetchListTweets = vi.fn(async (listId: string) => {
+    if (listId === '9999900000') throw new Error('List not found');
+    return [
+      {
+        id: `${listId}-1`,
+        text: `tweet from ${listId}`,
+        username: 'a',
+        timestamp: now,
+      },
+    ];
+  });
+  const fetcher = createMockFetcher({ fetchListTweets });
+  const service = new TwitterRSSService(runtime as any, fetcher);
+  runtime.getService = vi.fn().mockReturnValue(service);
+  const registryFile = path.join(dir, 'monitored_lists.json');
+  const cleanup = () => fs.rm(dir, { recursive: true, force: true });
+  return {
+    service,
+    runtime,
+    fetchListTweets,
+    fetcher,
+    registryFile,
+    cleanup,
+  };
+}
+
+function findAction(name: string) {
+  const action = plugin.actions?.find((a) => a.name === name);
+  if (!action) throw new Error(`${name} missing`);
+  return action;
+}
+
+async function say(
+  runtime: any,
+  actionName: string,
+  text: string,
+  entityId = ADMIN
+) {
+  const callback = vi.fn();
+  const message = { entityId, content: { text, source: 'test' } };
+  await findAction(actionName).handler(
+    runtime,
+    message as any,
+    {} as any,
+    {},
+    callback
+  );
+  return callback.mock.calls[0][0].text as string;
+}
+
+describe('List management', () => {
+  it('adds, renames and removes lists from chat and persists them', async () => {
+    const { service, runtime, fetchListTweets, registryFile, cleanup } =
+      await createService();
+    try {
+      expect(
+        await say(
+          runtime,
+          'ADD_TWITTER_LIST',
+          'add https://x.com/i/lists/2220000000 as "AI News"'
+        )
+      ).toContain('Now monitoring AI News (2220000000)');
+      expect(fetchListTweets).toHaveBeenCalledWith('2220000000', 1);
+      // Let the update the action started finish writing its feeds.
+      await service.processAllLists(['2220000000']);
+      expect(service.getLists()).toEqual([
+        { listId: '1110000000', name: 'News' },
+        { listId: '2220000000', name: 'AI News' },
+      ]);
+
+      const stored = JSON.parse(await fs.readFile(registryFile, 'utf-8'));
+      expect(stored.lists).toMatchObject([
+        { listId: '1110000000', name: 'News' },
+        { listId: '2220000000', name: 'AI News', updatedBy: ADMIN },
+      ]);
+
+      expect(
+        await say(
+          runtime,
+          'RENAME_TWITTER_LIST',
+          'rename list 2220000000 to Machine Learning'
+        )
+      ).toBe('✏️ List 2220000000 is now called Machine Learning.');
+      expect(
+        await say(
+          runtime,
+          'REMOVE_TWITTER_LIST',
+          'stop watching list 1110000000'
+        )
+      ).toBe('🗑️ Stopped monitoring News (1110000000).');
+      expect(service.getLists()).toEqual([
+        { listId: '2220000000', name: 'Machine Learning' },
+      ]);
+      expect(service.getSources().map((source) => source.id)).toEqual([
+        '2220000000',
+      ]);
+    } finally {
+      await service.stop();
+      await cleanup();
+    }
+  });
+
+  it('keeps added lists across updates and restarts', async () => {
+    const { service, runtime, fetcher, cleanup } = await createService();
+    let restarted: TwitterRSSService | undefined;
+    try {
+      expect(
+        await say(
+          runtime,
+          'ADD_TWITTER_LIST',
+          'add list 2220000000 to my feeds'
+        )
+      ).toContain('Now monitoring List 2220000000');
+      // The state and output directories are the same here, so the feeds
+      // written by the update must not replace the registry.
+      await service.processAllLists();
+      await service.stop();
+
+      restarted = new TwitterRSSService(runtime as any, fetcher);
+      await restarted.initialize();
+      expect(restarted.getLists()).toEqual([
+        { listId: '1110000000', name: 'News' },
+        { listId: '2220000000', name: 'List 2220000000' },
+      ]);
+    } finally {
+      await service.stop();
+      await restarted?.stop();
+      await cleanup();
+    }
+  });
+
+  it('refuses unreadable lists, duplicates and senders who are not list admins', async () => {
+    const { service, runtime, registryFile, cleanup } = await createService();
+    try {
+      expect(
+        await say(runtime, 'ADD_TWITTER_LIST', 'add list 9999900000')
+      ).toBe('❌ Could not read list 9999900000: List not found');
+      expect(
+        await say(runtime, 'ADD_TWITTER_LIST', 'add list 1110000000')
+      ).toBe('❌ List 1110000000 is already monitored');
+      expect(
+        await say(
+          runtime,
+          'ADD_TWITTER_LIST',
+          'add list 2222200000',
+          'stranger'
+        )
+      ).toBe('❌ You are not allowed to change the monitored lists');
+      expect(
+        await say(runtime, 'RENAME_TWITTER_LIST', 'rename list 1110000000')
+      ).toMatch(/Tell me the new name/);
+      expect(service.getLists()).toEqual([
+        { listId: '1110000000', name: 'News' },
+      ]);
+      await expect(fs.access(registryFile)).rejects.toThrow();
+    } finally {
+      await service.stop();
+      await cleanup();
+    }
+  });
+
+  it('picks up an edited registry before the next update without a restart', async () => {
+    const { service, fetchListTweets, registryFile, cleanup } =
+      await createService();
+    try {
+      await fs.writeFile(
+        registryFile,
+        JSON.stringify({ lists: [{ listId: '3330000000', name: 'Edited' }] })
+      );
+      const result = await service.processAllLists();
+
+      expect(result.totalTweets).toBe(1);
+      expect(fetchListTweets).toHaveBeenCalledWith(
+        '3330000000',
+        expect.anything()
+      );
+      expect(fetchListTweets).not.toHaveBeenCalledWith(
+        '1110000000',
+        expect.anything()
+      );
+      expect(service.getLists()).toEqual([
+        { listId: '3330000000', name: 'Edited' },
+      ]);
+    } finally {
+      await service.stop();
+      await cleanup();
+    }
+  });
+
+  it('parses list references and names from chat text', () => {
+    expect(parseListReference('https://twitter.com/i/lists/1234567890')).toBe(
+      '1234567890'
+    );
+    expect(parseListReference('please add 1234567890.')).toBe('1234567890');
+    expect(parseListReference('add the list about cats')).toBeNull();
+
+    expect(parseListName('add list 1234567890 as Tech News.')).toBe(
+      'Tech News'
+    );
+    expect(parseListName('rename “Crypto” list 1234567890')).toBe('Crypto');
+    expect(parseListName('remove list 1234567890')).toBeNull();
+    expect(parseListName('add list 1234567890 to my feeds')).toBeNull();
+    expect(
+      parseListName('rename list 1234567890 to ML', ['as', 'to', 'named'])
+    ).toBe('ML');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { MetricsRegistry } from '../src/metrics';
+import { RSSServerService } from '../src/services/rssServerService';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+describe('Prometheus metrics', () => {
+  it('renders counters, gauges and histograms in the text format', async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('jobs_total', 'Jobs done');
+    const gauge = registry.gauge('queue_depth', 'Queued jobs');
+    const histogram = registry.histogram('job_seconds', 'Job time', [1, 5]);
+    registry.onCollect(() => gauge.set({}, 3));
+
+    counter.inc({ queue: 'a "quoted"\nname' });
+    counter.inc({ queue: 'a "quoted"\nname' }, 2);
+    histogram.observe({ kind: 'x' }, 0.5);
+    histogram.observe({ kind: 'x' }, 7);
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP jobs_total Jobs done',
+        '# TYPE jobs_total counter',
+        'jobs_total{queue="a \\"quoted\\"\\nname"} 3',
+        '# HELP queue_depth Queued jobs',
+        '# TYPE queue_depth gauge',
+        'queue_depth 3',
+        '# HELP job_seconds Job time',
+        '# TYPE job_seconds histogram',
+        'job_seconds_bucket{kind="x",le="1"} 1',
+        'job_seconds_bucket{kind="x",le="5"} 1',
+        'job_seconds_bucket{kind="x",le="+Inf"} 2',
+        'job_seconds_sum{kind="x"} 7.5',
+        'job_seconds_count{kind="x"} 2',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('serves pipeline and HTTP metrics at /metrics', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-metrics-'));
+    const now = Math.floor(Date.now() / 1000);
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return outputDir;
+        if (key === 'TWITTER_LISTS') return '111,222';
+        if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+        return undefined;
+      }),
+    });
+    const twitterService = new TwitterRSSService(
+      runtime as any,
+      createMockFetcher({
+        fetchListTweets: vi.fn(async (listId: string) => {
+          if (listId === '222') throw new Error('Failed to perform request.');
+          return [
+            {
+              id: '1',
+              text: 'a tweet long enough',
+              username: 'a',
+              timestamp: now,
+            },
+          ];
+        }),
+      })
+    );
+    runtime.getService = vi.fn().mockReturnValue(twitterService);
+    const server = (new RSSServerService(runtime as any) as any).app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      await twitterService.processAllLists();
+      await fetch(`${baseUrl}/rss/lists/111`);
+
+      const response = await fetch(`${baseUrl}/metrics`);
+      expect(response.headers.get('content-type')).toContain('version=0.0.4');
+      const body = await response.text();
+      expect(body).toContain(
+        'twitter_rss_tweets_fetched_total{source="111"} 1'
+      );
+      expect(body).toContain(
+        'twitter_rss_tweets_published_total{source="111"} 1'
+      );
+      expect(body).toContain(
+        'twitter_rss_fetch_errors_total{source="222",type="network"} 1'
+      );
+      expect(body).toContain('twitter_rss_runs_total{status="succeeded"} 1');
+      expect(body).toContain('twitter_rss_authenticated 1');
+      expect(body).toContain('twitter_rss_feed_items 1');
+      expect(body).toMatch(/twitter_rss_feed_size_bytes\{format="rss"\} [1-9]/);
+      expect(body).toContain(
+        'twitter_rss_http_requests_total{method="GET",route="/rss/lists/:listId",status="200"} 1'
+      );
+    } finally {
+      server.close();
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { FixtureFetcher } from '../src/fetchers';
+import { updateRSSAction } from '../src/actions/updateRSS';
+import { RSSServerService } from '../src/services/rssServerService';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import {
+  createMockMessage,
+  createMockRuntime,
+  createMockState,
+  runWithFakeTimers,
+} from './test-utils';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'twitter');
+
+describe('offline pipeline with recorded fixtures', () => {
+  let outputDir: string;
+  let runtime: any;
+  let service: TwitterRSSService;
+
+  beforeAll(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-offline-'));
+    const settings: Record<string, string> = {
+      TWITTER_FETCHER: 'fixtures',
+      TWITTER_FIXTURES_DIR: FIXTURES_DIR,
+      TWITTER_LISTS: '111:Tech',
+      TWITTER_USERS: 'jack',
+      TWITTER_SEARCHES: '#elizaos',
+      FETCH_TWEET_THREADS: 'true',
+      RSS_OUTPUT_DIR: outputDir,
+      RSS_STATE_DIR: outputDir,
+      // Fixture tweets are older than the default retention window.
+      PROCESSED_TWEET_RETENTION_DAYS: '36500',
+    };
+    runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => settings[key]),
+      getService: vi.fn((type: string) =>
+        type === TwitterRSSService.serviceType ? service : null
+      ),
+    });
+    service = new TwitterRSSService(runtime);
+    await service.initialize();
+  });
+
+  afterAll(async () => {
+    await service.stop();
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('selects the fixture fetcher without credentials', () => {
+    expect((service as any).fetcher).toBeInstanceOf(FixtureFetcher);
+    expect((service as any).isLoggedIn).toBe(true);
+  });
+
+  it('runs the update action and serves the generated feeds', async () => {
+    const callback = vi.fn();
+    await runWithFakeTimers(async () =>
+      updateRSSAction.handler(
+        runtime,
+        createMockMessage('update the feed'),
+        createMockState(),
+        {},
+        callback
+      )
+    );
+    expect(callback.mock.calls[0][0].text).toContain('Processed 4 new tweets');
+
+    const server = (new RSSServerService(runtime) as any).app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const combined = await (await fetch(`${baseUrl}/rss`)).text();
+      expect(combined).toContain('Shipping the new agent runtime');
+      expect(combined).toContain('Full changelog is in the release notes');
+      expect(combined).toContain('just setting up my feed reader');
+
+      const search = await (
+        await fetch(`${baseUrl}/feed.json/sources/search-elizaos`)
+      ).json();
+      expect(search.items.map((item: any) => item.id)).toEqual([
+        '3001',
+        '1001',
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ProcessedTweetIndex } from '../src/services/processedTweetIndex';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('ProcessedTweetIndex', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-processed-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('expires entries by age and by count', async () => {
+    const index = new ProcessedTweetIndex(dir, {
+      maxAgeMs: DAY,
+      maxEntries: 2,
+    });
+    const now = Date.now();
+    index.add('old', now - 2 * DAY);
+    index.add('a', now - 3000);
+    index.add('b', now - 2000);
+    index.add('c', now - 1000);
+    expect(index.prune()).toBe(2);
+    expect(index.has('old')).toBe(false);
+    expect(index.has('a')).toBe(false);
+    expect(index.has('c')).toBe(true);
+    expect(index.has('unseen', now - 2 * DAY)).toBe(true);
+    expect(index.has('unseen', now)).toBe(false);
+  });
+
+  it('falls back to the default retention for invalid settings', () => {
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return dir;
+        if (key === 'PROCESSED_TWEET_RETENTION_DAYS') return 'a month';
+        if (key === 'PROCESSED_TWEET_MAX_ENTRIES') return 'lots';
+        return undefined;
+      }),
+    });
+    const service = new TwitterRSSService(runtime as any, createMockFetcher());
+    expect((service as any).processedTweetIds.retention).toEqual({
+      maxAgeMs: 30 * DAY,
+      maxEntries: 10000,
+    });
+  });
+
+  it('appends new entries and compacts once stale lines dominate', async () => {
+    const file = path.join(dir, 'processed_tweets.jsonl');
+    const retention = { maxAgeMs: DAY, maxEntries: 1 };
+    const readIds = async () =>
+      (await fs.readFile(file, 'utf-8'))
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).id);
+    const index = new ProcessedTweetIndex(dir, retention);
+    const now = Date.now();
+
+    index.add('1', now);
+    await index.save();
+    index.add('2', now + 1);
+    await index.save();
+    expect(await readIds()).toEqual(['1', '2']);
+
+    index.add('3', now + 2);
+    await index.save();
+    expect(await readIds()).toEqual(['3']);
+
+    const reloaded = new ProcessedTweetIndex(dir, retention);
+    await reloaded.load();
+    expect(reloaded.size).toBe(1);
+    expect(reloaded.has('3')).toBe(true);
+  });
+
+  it('migrates a legacy processed_tweets.json array', async () => {
+    await fs.writeFile(
+      path.join(dir, 'processed_tweets.json'),
+      JSON.stringify(['10', '11'])
+    );
+    const index = new ProcessedTweetIndex(dir, {
+      maxAgeMs: DAY,
+      maxEntries: 100,
+    });
+    await index.load();
+    expect(index.has('10')).toBe(true);
+    expect(index.has('11')).toBe(true);
+    await expect(
+      fs.stat(path.join(dir, 'processed_tweets.json'))
+    ).rejects.toThrow();
+    const migrated = await fs.readFile(
+      path.join(dir, 'processed_tweets.jsonl'),
+      'utf-8'
+    );
+    expect(migrated.trim().split('\n')).toHaveLength(2);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import plugin from '../src/plugin';
 import { createMockRuntime, createMockMessage, createMockState } from './test-utils';
 
@@ -18,4 +18,27 @@ describe('Twitter List Provider', () => {
     expect(result).toHaveProperty('text');
     expect(result).toHaveProperty('values');
   });
+
+  it('describes the update schedule the scheduler uses', async () => {
+    if (!provider) throw new Error('provider missing');
+    const settings: Record<string, string> = {
+      TWITTER_LISTS: '111,222',
+      RSS_UPDATE_CRON: '0 * * * *',
+      RSS_LIST_SCHEDULES: '111=*/5 * * * *',
+    };
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => settings[key]),
+    });
+    const result = await provider.get(runtime, createMockMessage('info'), createMockState());
+    expect(result.text).toBe(
+      'Monitoring 2 Twitter lists, updated on the cron schedule "0 * * * *" (1 source on its own schedule)'
+    );
+    expect(result.values).toMatchObject({ updateInterval: null, updateSchedule: '0 * * * *' });
+
+    delete settings.RSS_UPDATE_CRON;
+    delete settings.RSS_LIST_SCHEDULES;
+    settings.RSS_UPDATE_INTERVAL = '15';
+    const interval = await provider.get(runtime, createMockMessage('info'), createMockState());
+    expect(interval.text).toBe('Monitoring 2 Twitter lists, updated every 15 minutes');
+  });
 });
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  RateLimitError,
+  RequestBudgetExceededError,
+  RequestPolicy,
+  rateLimitResetAt,
+} from '../src/fetchers';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import {
+  createMockFetcher,
+  createMockRuntime,
+  runWithFakeTimers,
+} from './test-utils';
+
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Response status: ${status}`), {
+    response: new Response(null, { status, headers }),
+  });
+}
+
+describe('RequestPolicy', () => {
+  it('retries transient failures with backoff', async () => {
+    const policy = new RequestPolicy({ minIntervalMs: 0, baseDelayMs: 100 });
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Failed to perform request.'))
+      .mockRejectedValueOnce(apiError(503))
+      .mockResolvedValue('ok');
+
+    await expect(
+      runWithFakeTimers(() => policy.run('test', request))
+    ).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry auth errors or missing resources', async () => {
+    const policy = new RequestPolicy({ minIntervalMs: 0 });
+    const request = vi.fn().mockRejectedValue(apiError(404));
+
+    await expect(policy.run('test', request)).rejects.toThrow(
+      'Response status: 404'
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+
+    request.mockRejectedValue(apiError(401));
+    await expect(policy.run('test', request)).rejects.toThrow(
+      'Response status: 401'
+    );
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for the rate limit reset before retrying', async () => {
+    vi.useFakeTimers();
+    try {
+      const policy = new RequestPolicy({ minIntervalMs: 0 });
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(
+          apiError(420, {
+            'x-rate-limit-reset': String(Math.ceil(Date.now() / 1000) + 30),
+          })
+        )
+        .mockResolvedValue('ok');
+
+      const pending = policy.run('test', request);
+      await vi.advanceTimersByTimeAsync(29 * 1000);
+      expect(request).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(2 * 1000);
+      await expect(pending).resolves.toBe('ok');
+      expect(request).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('fails fast when the rate limit resets too far away', async () => {
+    const policy = new RequestPolicy({
+      minIntervalMs: 0,
+      maxRateLimitWaitMs: 60 * 1000,
+    });
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(apiError(429, { 'retry-after': '900' }))
+      .mockResolvedValue('ok');
+
+    await expect(policy.run('test', request)).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+    await expect(policy.run('test', request)).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('enforces the request budget until the next run', async () => {
+    const policy = new RequestPolicy({ minIntervalMs: 0, budget: 2 });
+    const request = vi.fn().mockResolvedValue('ok');
+
+    await policy.run('test', request);
+    await policy.run('test', request);
+    await expect(policy.run('test', request)).rejects.toBeInstanceOf(
+      RequestBudgetExceededError
+    );
+    expect(policy.remaining).toBe(0);
+
+    policy.startRun();
+    await expect(policy.run('test', request)).resolves.toBe('ok');
+  });
+
+  it('reads the reset time from rate limit responses only', () => {
+    const now = Date.now();
+    expect(rateLimitResetAt(apiError(429, { 'retry-after': '10' }), now)).toBe(
+      now + 10000
+    );
+    expect(
+      rateLimitResetAt(apiError(420, { 'x-rate-limit-reset': '1700000000' }))
+    ).toBe(1700000000 * 1000);
+    expect(rateLimitResetAt(apiError(500))).toBeNull();
+    expect(rateLimitResetAt(new Error('boom'))).toBeNull();
+  });
+});
+
+describe('TwitterRSSService fetch failures', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-retry-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('retries list fetches and counts failures per source', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const fetcher = createMockFetcher({
+      fetchListTweets: vi.fn(async (listId: string) => {
+        if (listId === '222') throw apiError(404);
+        return [
+          { id: '1', text: 'hello from a list', username: 'a', timestamp: now },
+        ];
+      }),
+    });
+    fetcher.fetchListTweets.mockRejectedValueOnce(apiError(503));
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return dir;
+        if (key === 'TWITTER_LISTS') return '111,222';
+        return undefined;
+      }),
+    });
+    const service = new TwitterRSSService(runtime as any, fetcher);
+
+    const result = await runWithFakeTimers(() => service.processAllLists());
+
+    expect(result.totalTweets).toBe(1);
+    const failures = service.getSourceFailures();
+    expect(failures['111']).toMatchObject({
+      consecutiveFailures: 0,
+      totalFailures: 0,
+    });
+    expect(failures['111'].lastSuccessAt).not.toBeNull();
+    expect(failures['222']).toMatchObject({
+      consecutiveFailures: 1,
+      totalFailures: 1,
+      lastError: 'Response status: 404',
+      lastSuccessAt: null,
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { RunCoordinator } from '../src/services/runCoordinator';
+import { RSSServerService } from '../src/services/rssServerService';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+/** An `execute` callback whose runs finish only when released. */
+function controlledRuns() {
+  const releases: Array<() => void> = [];
+  const execute = vi.fn(
+    (sourceIds?: string[]) =>
+      new Promise<string[] | undefined>((resolve) => {
+        releases.push(() => resolve(sourceIds));
+      })
+  );
+  const release = async () => {
+    releases.shift()?.();
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+  return { execute, release };
+}
+
+describe('RunCoordinator', () => {
+  it('runs one update at a time and coalesces triggers into one follow-up', async () => {
+    const { execute, release } = controlledRuns();
+    const runs = new RunCoordinator(execute);
+
+    const first = runs.trigger('scheduled');
+    const second = runs.trigger('http');
+    const third = runs.trigger('action', ['111']);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(first.run.status).toBe('running');
+    expect(second.joined).toBe(false);
+    expect(second.run.status).toBe('queued');
+    expect(third.joined).toBe(true);
+    expect(third.run).toBe(second.run);
+    expect(second.run.triggers).toEqual(['http', 'action']);
+
+    await release();
+    expect(first.run.status).toBe('succeeded');
+    expect(second.run.status).toBe('running');
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(execute).toHaveBeenLastCalledWith(undefined);
+
+    await release();
+    await expect(third.done).resolves.toBeUndefined();
+    expect(runs.current()).toBeNull();
+    expect(runs.list().map((run) => run.id)).toEqual([
+      second.run.id,
+      first.run.id,
+    ]);
+  });
+
+  it('lets scheduled triggers join a run that covers their sources', async () => {
+    const { execute, release } = controlledRuns();
+    const runs = new RunCoordinator(execute);
+
+    const all = runs.trigger('http');
+    const covered = runs.trigger('scheduled', ['111']);
+    expect(covered.joined).toBe(true);
+    expect(covered.run).toBe(all.run);
+
+    await release();
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('records failed runs and starts the next one', async () => {
+    const execute = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValue('ok');
+    const runs = new RunCoordinator(execute);
+
+    const failed = runs.trigger('http');
+    const next = runs.trigger('http');
+
+    await expect(failed.done).rejects.toThrow('boom');
+    expect(failed.run).toMatchObject({ status: 'failed', error: 'boom' });
+    await expect(next.done).resolves.toBe('ok');
+    expect(runs.get(next.run.id)?.status).toBe('succeeded');
+  });
+
+  it('answers POST /update with a run ID to poll', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-runs-'));
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return outputDir;
+        if (key === 'TWITTER_LISTS') return '111';
+        if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+        return undefined;
+      }),
+    });
+    const twitterService = new TwitterRSSService(
+      runtime as any,
+      createMockFetcher()
+    );
+    runtime.getService = vi.fn().mockReturnValue(twitterService);
+    const server = (new RSSServerService(runtime as any) as any).app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const accepted = await fetch(`${baseUrl}/update`, { method: 'POST' });
+      expect(accepted.status).toBe(202);
+      const { runId, statusUrl } = await accepted.json();
+      expect(statusUrl).toBe(`/runs/${runId}`);
+
+      await twitterService.processAllLists();
+      const run = await (await fetch(`${baseUrl}${statusUrl}`)).json();
+      expect(run).toMatchObject({ id: runId, status: 'succeeded' });
+      expect(run.result.feedItems).toBe(0);
+
+      const missing = await fetch(`${baseUrl}/runs/unknown`);
+      expect(missing.status).toBe(404);
+
+      const listed = await (await fetch(`${baseUrl}/runs?limit=1`)).json();
+      expect(listed.runs).toHaveLength(1);
+      for (const limit of ['-1', '0', '1.5', 'all']) {
+        expect((await fetch(`${baseUrl}/runs?limit=${limit}`)).status).toBe(
+          400
+        );
+      }
+    } finally {
+      server.close();
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  });
+});
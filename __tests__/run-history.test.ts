@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getRSSStatusAction } from '../src/actions/getRSSStatus';
+import { RunHistory, summarizeRuns } from '../src/services/runHistory';
+import type { RunRecord } from '../src/services/runHistory';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import {
+  createMockFetcher,
+  createMockMessage,
+  createMockRuntime,
+  createMockState,
+} from './test-utils';
+
+describe('run history', () => {
+  let dir: string;
+  let runtime: ReturnType<typeof createMockRuntime>;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-history-'));
+    runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return dir;
+        if (key === 'TWITTER_LISTS') return '111,222';
+        if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+        if (key === 'MIN_TWEET_LENGTH') return '10';
+        return undefined;
+      }),
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function createService() {
+    const now = Math.floor(Date.now() / 1000);
+    const fetcher = createMockFetcher({
+      fetchListTweets: vi.fn(async (listId: string) => {
+        if (listId === '222') {
+          throw Object.assign(new Error('Response status: 404'), {
+            status: 404,
+          });
+        }
+        return [
+          {
+            id: '1',
+            text: 'a tweet long enough',
+            username: 'a',
+            timestamp: now,
+          },
+          { id: '2', text: 'short', username: 'b', timestamp: now },
+        ];
+      }),
+    });
+    return new TwitterRSSService(runtime as any, fetcher);
+  }
+
+  it('records each run with per-source counts and keeps it across restarts', async () => {
+    await createService().processAllLists(undefined, 'scheduled');
+
+    const [run] = await createService().listRuns();
+    expect(run).toMatchObject({
+      triggers: ['scheduled'],
+      status: 'succeeded',
+      error: null,
+    });
+    expect(run.durationMs).toBeGreaterThanOrEqual(0);
+    expect(run.result?.sources).toEqual({
+      '111': { fetched: 2, new: 2, filtered: 1, published: 1, error: null },
+      '222': {
+        fetched: 0,
+        new: 0,
+        filtered: 0,
+        published: 0,
+        error: 'Response status: 404',
+      },
+    });
+    expect(await createService().getRun(run.id)).toEqual(run);
+  });
+
+  it('shows a run the same way before and after it reaches the history', async () => {
+    const service = createService();
+    const { run, done } = service.requestUpdate('http');
+    expect(await service.getRun(run.id)).toMatchObject({
+      status: 'running',
+      result: null,
+    });
+    await done;
+
+    const live = await service.getRun(run.id);
+    expect(Object.keys(live?.result ?? {}).sort()).toEqual([
+      'feedItems',
+      'sources',
+      'totalTweets',
+    ]);
+    expect(live).toEqual(await createService().getRun(run.id));
+    expect((await service.listRuns())[0]).toEqual(live);
+  });
+
+  it('keeps only the configured number of runs', async () => {
+    const history = new RunHistory(path.join(dir, 'runs.json'), 2);
+    for (const id of ['a', 'b', 'c']) {
+      await history.record({
+        id,
+        triggers: ['manual'],
+        sourceIds: null,
+        status: 'succeeded',
+        queuedAt: new Date().toISOString(),
+        startedAt: new Date().toISOString(),
+        finishedAt: new Date().toISOString(),
+        durationMs: 0,
+        result: null,
+        error: null,
+      });
+    }
+
+    const reloaded = new RunHistory(path.join(dir, 'runs.json'), 2);
+    await reloaded.load();
+    expect(reloaded.list().map((run) => run.id)).toEqual(['c', 'b']);
+  });
+
+  it('counts runs still in progress apart from succeeded ones', () => {
+    const startedAt = new Date().toISOString();
+    const run = (id: string, status: RunRecord['status']): RunRecord => ({
+      id,
+      triggers: ['schedule'],
+      sourceIds: null,
+      status,
+      queuedAt: startedAt,
+      startedAt: status === 'queued' ? null : startedAt,
+      finishedAt: null,
+      durationMs: null,
+      result: null,
+      error: status === 'failed' ? 'boom' : null,
+    });
+
+    expect(
+      summarizeRuns(
+        [
+          run('d', 'queued'),
+          run('c', 'running'),
+          run('b', 'failed'),
+          run('a', 'succeeded'),
+        ],
+        new Date(0)
+      )
+    ).toBe(
+      [
+        '3 runs (1 succeeded, 1 failed, 1 running), 0 tweets published, 0 filtered',
+        `Run at ${startedAt} failed: boom`,
+      ].join('\n')
+    );
+  });
+
+  it('summarizes recent runs in GET_RSS_STATUS', async () => {
+    const service = createService();
+    await service.processAllLists();
+    await service.processAllLists();
+
+    const history = RunHistory.fromStateDir(dir);
+    await history.load();
+    expect(summarizeRuns(history.list(), new Date(0))).toBe(
+      [
+        '2 runs (2 succeeded, 0 failed), 1 tweets published, 2 filtered',
+        '222 failed in 2 runs, last: Response status: 404',
+      ].join('\n')
+    );
+
+    const callback = vi.fn();
+    await getRSSStatusAction.handler(
+      runtime as any,
+      createMockMessage('what happened overnight?'),
+      createMockState(),
+      {},
+      callback
+    );
+    const { text } = callback.mock.calls[0][0];
+    expect(text).toContain('🕘 Last run: succeeded');
+    expect(text).toContain('📈 Last 24 hours: 2 runs');
+  });
+});
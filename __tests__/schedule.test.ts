@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  intervalToCron,
+  isQuietTime,
+  nextCronRun,
+  nextScheduledRun,
+  parseQuietHours,
+  parseUpdateSchedule,
+} from '../src/schedule';
+import { parseTweetSources } from '../src/sources';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+const at = (time: string) => new Date(`2025-03-10T${time}`);
+
+describe('update schedules', () => {
+  it('finds the next run of a cron expression', () => {
+    expect(nextCronRun('*/5 * * * *', at('10:02:30'))).toEqual(at('10:05:00'));
+    expect(nextCronRun('0 * * * *', at('10:00:00'))).toEqual(at('11:00:00'));
+    expect(
+      nextCronRun('30 8 * * mon-fri', new Date('2025-03-08T12:00:00'))
+    ).toEqual(at('08:30:00'));
+    expect(nextCronRun('*/20 * * * * *', at('10:00:05'))).toEqual(
+      at('10:00:20')
+    );
+    expect(nextCronRun('not a cron', at('10:00:00'))).toBeNull();
+  });
+
+  it('converts the legacy interval to a cron expression', () => {
+    expect(intervalToCron(30)).toBe('*/30 * * * *');
+    expect(intervalToCron(120)).toBe('0 */2 * * *');
+    expect(intervalToCron(NaN)).toBe('*/30 * * * *');
+    expect(
+      parseUpdateSchedule(
+        (key) => (key === 'RSS_UPDATE_INTERVAL' ? '120' : undefined),
+        []
+      )
+    ).toMatchObject({ cron: '0 */2 * * *', intervalMinutes: 120, errors: [] });
+  });
+
+  it('warns about intervals a cron expression cannot keep exactly', () => {
+    const withInterval = (minutes: string) =>
+      parseUpdateSchedule(
+        (key) => (key === 'RSS_UPDATE_INTERVAL' ? minutes : undefined),
+        []
+      );
+
+    // */45 fires at :00 and :45, leaving gaps of 45 and 15 minutes.
+    expect(withInterval('45').errors).toEqual([
+      'RSS_UPDATE_INTERVAL 45 does not divide an hour or a day evenly, so updates run on "*/45 * * * *" instead of every 45 minutes; set RSS_UPDATE_CRON to choose the schedule',
+    ]);
+    // 90 minutes rounds to every 2 hours.
+    expect(withInterval('90')).toMatchObject({
+      cron: '0 */2 * * *',
+      errors: [
+        'RSS_UPDATE_INTERVAL 90 does not divide an hour or a day evenly, so updates run on "0 */2 * * *" instead of every 90 minutes; set RSS_UPDATE_CRON to choose the schedule',
+      ],
+    });
+    expect(withInterval('15').errors).toEqual([]);
+    expect(withInterval('360').errors).toEqual([]);
+  });
+
+  it('skips runs during quiet hours, also across midnight', () => {
+    const quiet = parseQuietHours('23:00-7');
+    expect(quiet).toEqual({ from: '23:00', to: '07:00' });
+    expect(isQuietTime(quiet, at('23:30:00'))).toBe(true);
+    expect(isQuietTime(quiet, at('06:59:00'))).toBe(true);
+    expect(isQuietTime(quiet, at('07:00:00'))).toBe(false);
+    expect(nextScheduledRun('0 * * * *', quiet, at('22:10:00'))).toEqual(
+      new Date('2025-03-11T07:00:00')
+    );
+    expect(parseQuietHours('25:00-07:00')).toBeNull();
+  });
+
+  it('resolves global and per-source schedules from settings', () => {
+    const settings: Record<string, string> = {
+      TWITTER_LISTS: '111,222',
+      TWITTER_USERS: 'jack',
+      RSS_UPDATE_CRON: '*/15 * * * *',
+      RSS_LIST_SCHEDULES: '111=*/5 * * * *;user-jack=0 * * * *;222=bogus',
+      RSS_QUIET_HOURS: 'later',
+      RSS_SKIP_INITIAL_RUN: 'true',
+    };
+    const get = (key: string) => settings[key];
+
+    const schedule = parseUpdateSchedule(get, parseTweetSources(get));
+
+    expect(schedule.cron).toBe('*/15 * * * *');
+    expect(schedule.intervalMinutes).toBeNull();
+    expect(schedule.sources).toEqual({
+      '111': '*/5 * * * *',
+      '222': '*/15 * * * *',
+      'user-jack': '0 * * * *',
+    });
+    expect(schedule.quietHours).toBeNull();
+    expect(schedule.skipInitialRun).toBe(true);
+    expect(schedule.errors).toEqual([
+      'Ignoring invalid RSS_LIST_SCHEDULES entry "222=bogus"',
+      'Ignoring invalid RSS_QUIET_HOURS "later"',
+    ]);
+  });
+
+  it('updates only the sources a schedule covers', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-schedule-'));
+    try {
+      const fetcher = createMockFetcher();
+      const runtime = createMockRuntime({
+        getSetting: vi.fn((key: string) => {
+          if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return dir;
+          if (key === 'TWITTER_LISTS') return '111,222';
+          if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+          return undefined;
+        }),
+      });
+      const service = new TwitterRSSService(runtime as any, fetcher);
+
+      await service.processAllLists(['222']);
+
+      expect(fetcher.fetchListTweets).toHaveBeenCalledTimes(1);
+      expect(fetcher.fetchListTweets).toHaveBeenCalledWith('222', 50);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
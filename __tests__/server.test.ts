@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { RSSServerService } from '../src/services/rssServerService';
+import { createMockRuntime } from './test-utils';
+
+describe('RSSServerService feed routes', () => {
+  let outputDir: string;
+  let server: any;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-server-'));
+    await fs.mkdir(path.join(outputDir, 'lists'));
+    await fs.writeFile(path.join(outputDir, 'twitter_lists.xml'), '<rss/>');
+    await fs.writeFile(path.join(outputDir, 'twitter_lists.atom'), '<feed/>');
+    await fs.writeFile(path.join(outputDir, 'twitter_lists.json'), '{}');
+    await fs.writeFile(path.join(outputDir, 'lists', '111.atom'), '<feed/>');
+    await fs.mkdir(path.join(outputDir, 'sources'));
+    await fs.writeFile(path.join(outputDir, 'sources', 'user-jack.xml'), '<rss/>');
+    await fs.writeFile(path.join(outputDir, 'processed_tweets.jsonl'), '');
+
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return outputDir;
+        if (key === 'TWITTER_LISTS') return '111:Tech';
+        if (key === 'TWITTER_USERS') return 'jack';
+        if (key === 'RSS_UPDATE_CRON') return '*/15 * * * *';
+        if (key === 'RSS_LIST_SCHEDULES') return 'user-jack=0 * * * *';
+        return undefined;
+      }),
+      getService: vi.fn().mockReturnValue(null),
+    });
+    const service = new RSSServerService(runtime as any);
+    server = (service as any).app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('serves each format on its own route', async () => {
+    const atom = await fetch(`${baseUrl}/atom`);
+    expect(atom.headers.get('content-type')).toContain('application/atom+xml');
+    expect(await atom.text()).toBe('<feed/>');
+
+    const json = await fetch(`${baseUrl}/feed.json`);
+    expect(json.headers.get('content-type')).toContain('application/feed+json');
+  });
+
+  it('negotiates the format from the Accept header', async () => {
+    const atom = await fetch(`${baseUrl}/feed`, {
+      headers: { Accept: 'application/atom+xml' },
+    });
+    expect(atom.headers.get('content-type')).toContain('application/atom+xml');
+
+    const json = await fetch(`${baseUrl}/feed`, {
+      headers: { Accept: 'text/html, application/json;q=0.9' },
+    });
+    expect(json.headers.get('content-type')).toContain('application/feed+json');
+
+    const fallback = await fetch(`${baseUrl}/feed`, {
+      headers: { Accept: '*/*' },
+    });
+    expect(fallback.headers.get('content-type')).toContain(
+      'application/rss+xml'
+    );
+  });
+
+  it('serves list feeds only for monitored lists', async () => {
+    const list = await fetch(`${baseUrl}/feed/lists/111`, {
+      headers: { Accept: 'application/atom+xml' },
+    });
+    expect(list.status).toBe(200);
+
+    const unknown = await fetch(`${baseUrl}/rss/lists/999`);
+    expect(unknown.status).toBe(404);
+  });
+
+  it('serves user and search source feeds by source ID', async () => {
+    const user = await fetch(`${baseUrl}/rss/sources/user-jack`);
+    expect(user.status).toBe(200);
+    expect(await user.text()).toBe('<rss/>');
+
+    const list = await fetch(`${baseUrl}/atom/sources/111`);
+    expect(list.status).toBe(200);
+
+    const unknown = await fetch(`${baseUrl}/rss/sources/user-nobody`);
+    expect(unknown.status).toBe(404);
+  });
+
+  it('answers conditional requests with 304 and caches per schedule', async () => {
+    // fetch adds `Cache-Control: no-cache` to conditional requests otherwise.
+    const revalidate = { 'Cache-Control': 'max-age=0' };
+    const first = await fetch(`${baseUrl}/rss`);
+    const etag = first.headers.get('etag') as string;
+    const lastModified = first.headers.get('last-modified') as string;
+    expect(etag).toMatch(/^W\/".+"$/);
+    expect(lastModified).toBeTruthy();
+    expect(first.headers.get('cache-control')).toBe('public, max-age=900');
+
+    const byETag = await fetch(`${baseUrl}/rss`, {
+      headers: { ...revalidate, 'If-None-Match': etag },
+    });
+    expect(byETag.status).toBe(304);
+
+    const byDate = await fetch(`${baseUrl}/rss`, {
+      headers: { ...revalidate, 'If-Modified-Since': lastModified },
+    });
+    expect(byDate.status).toBe(304);
+
+    const changed = await fetch(`${baseUrl}/rss`, {
+      headers: { ...revalidate, 'If-None-Match': 'W/"stale"' },
+    });
+    expect(changed.status).toBe(200);
+
+    const user = await fetch(`${baseUrl}/rss/sources/user-jack`);
+    expect(user.headers.get('cache-control')).toBe('public, max-age=3600');
+  });
+
+  it('compresses feeds for clients that accept gzip or brotli', async () => {
+    for (const encoding of ['br', 'gzip']) {
+      const response = await fetch(`${baseUrl}/atom`, {
+        headers: { 'Accept-Encoding': encoding },
+      });
+      expect(response.headers.get('content-encoding')).toBe(encoding);
+      expect(response.headers.get('vary')).toContain('Accept-Encoding');
+      expect(await response.text()).toBe('<feed/>');
+    }
+  });
+
+  it('reports the cron schedule in /status instead of the update interval', async () => {
+    const { monitoring } = await (await fetch(`${baseUrl}/status`)).json();
+    expect(monitoring.schedule.cron).toBe('*/15 * * * *');
+    expect(monitoring).not.toHaveProperty('updateInterval');
+  });
+
+  it('serves published feed files but no other file in the output directory', async () => {
+    const combined = await fetch(`${baseUrl}/twitter_lists.xml`);
+    expect(combined.status).toBe(200);
+    expect(combined.headers.get('content-type')).toContain(
+      'application/rss+xml'
+    );
+    expect((await fetch(`${baseUrl}/lists/111.atom`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/sources/user-jack.xml`)).status).toBe(200);
+
+    expect((await fetch(`${baseUrl}/processed_tweets.jsonl`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/lists/999.xml`)).status).toBe(404);
+  });
+});
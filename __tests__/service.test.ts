@@ -1,6 +1,14 @@
 import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
 import { TwitterRSSService } from '../src/services/twitterRSSService';
-import { createMockRuntime } from './test-utils';
+import { parseTwitterLists } from '../src/sources';
+import {
+  createMockFetcher,
+  createMockRuntime,
+  runWithFakeTimers,
+} from './test-utils';
 
 describe('TwitterRSSService failure cases', () => {
   it('throws when not authenticated', async () => {
@@ -15,7 +23,7 @@ describe('TwitterRSSService failure cases', () => {
     const runtime = createMockRuntime({
       getSetting: vi.fn().mockReturnValue('value'),
     });
-    const service = new TwitterRSSService(runtime as any);
+    const service = new TwitterRSSService(runtime as any, createMockFetcher());
     // Force authentication state
     (service as any).isLoggedIn = true;
     (service as any).twitterLists = [{ listId: '1' }];
@@ -34,15 +42,157 @@ describe('TwitterRSSService failure cases', () => {
         return undefined;
       }),
     });
-    const service = new TwitterRSSService(runtime as any);
-    (service as any).scraper.fetchListTweets = vi
-      .fn()
-      .mockResolvedValue([{ id: '1', text: 'hi' }]);
-    (service as any).scraper.getTweet = vi
-      .fn()
-      .mockResolvedValue({ id: '1', thread: [{ id: '2', text: 'reply' }] });
+    const fetcher = createMockFetcher({
+      fetchListTweets: vi.fn().mockResolvedValue([{ id: '1', text: 'hi' }]),
+      getTweet: vi
+        .fn()
+        .mockResolvedValue({ id: '1', thread: [{ id: '2', text: 'reply' }] }),
+    });
+    const service = new TwitterRSSService(runtime as any, fetcher);
     const tweets = await service.fetchListTweets('1');
-    expect((service as any).scraper.getTweet).toHaveBeenCalledWith('1');
+    expect(fetcher.getTweet).toHaveBeenCalledWith('1');
     expect(tweets[0].thread?.length).toBe(1);
   });
+
+  it('keeps previously published tweets in the feed across runs', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-store-'));
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return outputDir;
+        if (key === 'MAX_RSS_ENTRIES') return '2';
+        return undefined;
+      }),
+    });
+    const service = new TwitterRSSService(runtime as any);
+    (service as any).isLoggedIn = true;
+    (service as any).twitterLists = [{ listId: '1' }];
+
+    const tweet = (id: string, timestamp: number) => ({
+      id,
+      text: `tweet ${id}`,
+      author: { username: 'user', name: 'User' },
+      createdAt: new Date(timestamp),
+      url: `https://twitter.com/user/status/${id}`,
+      isRetweet: false,
+      isReply: false,
+    });
+    const run = async (tweets: any[]) => {
+      service.fetchListTweets = vi.fn().mockResolvedValue(tweets) as any;
+      return runWithFakeTimers(() => service.processAllLists());
+    };
+
+    const first = await run([tweet('1', 1000), tweet('2', 2000)]);
+    const second = await run([tweet('3', 3000)]);
+
+    expect(first.totalTweets).toBe(2);
+    expect(second.totalTweets).toBe(1);
+    expect(second.feedItems).toBe(2);
+    const xml = await fs.readFile(second.rssPath, 'utf-8');
+    expect(xml).toContain('tweet 3');
+    expect(xml).toContain('tweet 2');
+    expect(xml).not.toContain('tweet 1');
+
+    const reloaded = new TwitterRSSService(runtime as any);
+    await (reloaded as any).itemStore.load();
+    expect((reloaded as any).itemStore.size).toBe(2);
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('writes a feed per list alongside the combined feed', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-lists-'));
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return outputDir;
+        if (key === 'TWITTER_LISTS') return '111:Tech News, 222';
+        return undefined;
+      }),
+    });
+    const service = new TwitterRSSService(runtime as any);
+    (service as any).isLoggedIn = true;
+    const tweet = (id: string) => ({
+      id,
+      text: `tweet ${id}`,
+      author: { username: 'user', name: 'User' },
+      createdAt: new Date(Number(id)),
+      url: `https://twitter.com/user/status/${id}`,
+      isRetweet: false,
+      isReply: false,
+    });
+    service.fetchListTweets = vi.fn(async (listId: string) =>
+      listId === '111' ? [tweet('1')] : [tweet('2')]
+    ) as any;
+
+    const result = await runWithFakeTimers(() => service.processAllLists());
+
+    const combined = await fs.readFile(result.rssPath, 'utf-8');
+    expect(combined).toContain('tweet 1');
+    expect(combined).toContain('tweet 2');
+    const tech = await fs.readFile(
+      path.join(outputDir, 'lists', '111.xml'),
+      'utf-8'
+    );
+    expect(tech).toContain('Tech News');
+    expect(tech).toContain('tweet 1');
+    expect(tech).not.toContain('tweet 2');
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('feeds user timelines and searches through the same pipeline', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-sources-'));
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return outputDir;
+        if (key === 'TWITTER_USERS') return '@jack:Jack';
+        if (key === 'TWITTER_SEARCHES') return '#elizaos';
+        if (key === 'MIN_TWEET_LENGTH') return '10';
+        return undefined;
+      }),
+    });
+    const now = Math.floor(Date.now() / 1000);
+    const fetcher = createMockFetcher({
+      fetchUserTweets: vi.fn().mockResolvedValue([
+        { id: '10', text: 'timeline tweet', username: 'jack', timestamp: now },
+      ]),
+      searchTweets: vi.fn().mockResolvedValue([
+        {
+          id: '20',
+          text: 'hashtag tweet #elizaos',
+          username: 'a',
+          timestamp: now,
+        },
+        { id: '21', text: 'short', username: 'b', timestamp: now },
+      ]),
+    });
+    const service = new TwitterRSSService(runtime as any, fetcher);
+    (service as any).isLoggedIn = true;
+
+    const result = await runWithFakeTimers(() => service.processAllLists());
+
+    expect(fetcher.fetchUserTweets).toHaveBeenCalledWith('jack', 50);
+    expect(fetcher.searchTweets).toHaveBeenCalledWith('#elizaos', 50);
+    expect(result.totalTweets).toBe(2);
+    expect(result.filterReports['search-elizaos'].dropped).toEqual({
+      MIN_TWEET_LENGTH: 1,
+    });
+    const user = await fs.readFile(
+      path.join(outputDir, 'sources', 'user-jack.xml'),
+      'utf-8'
+    );
+    expect(user).toContain('timeline tweet');
+    expect(user).not.toContain('hashtag tweet');
+    const search = await fs.readFile(
+      path.join(outputDir, 'sources', 'search-elizaos.atom'),
+      'utf-8'
+    );
+    expect(search).toContain('hashtag tweet');
+    expect(search).toContain('/atom/sources/search-elizaos');
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('parses list names from TWITTER_LISTS', () => {
+    expect(parseTwitterLists('111:Tech News, 222,')).toEqual([
+      { listId: '111', name: 'Tech News' },
+      { listId: '222', name: 'List 222' },
+    ]);
+  });
 });
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import {
+  createMockFetcher,
+  createMockRuntime,
+  runWithFakeTimers,
+} from './test-utils';
+
+describe('Twitter session persistence', () => {
+  let dir: string;
+  let valid: boolean;
+  let fetcher: ReturnType<typeof createMockFetcher>;
+  let service: TwitterRSSService;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-session-'));
+    valid = false;
+    fetcher = createMockFetcher({
+      requiresLogin: true,
+      login: vi.fn(async () => {
+        valid = true;
+      }),
+      isLoggedIn: vi.fn(async () => valid),
+      getCookies: vi.fn().mockResolvedValue(['auth_token=new; Path=/']),
+      setCookies: vi.fn().mockResolvedValue(undefined),
+    });
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return dir;
+        if (key === 'TWITTER_LISTS') return '111';
+        if (key === 'TWITTER_USERNAME' || key === 'TWITTER_PASSWORD')
+          return 'me';
+        if (key === 'TWITTER_EMAIL') return 'me@example.com';
+        return undefined;
+      }),
+    });
+    service = new TwitterRSSService(runtime as any, fetcher);
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const cookieFile = () => path.join(dir, 'twitter_cookies.json');
+
+  it('reuses a valid saved session instead of logging in', async () => {
+    await fs.writeFile(cookieFile(), JSON.stringify(['auth_token=old']));
+    (fetcher.setCookies as any).mockImplementation(async () => {
+      valid = true;
+    });
+
+    await service.initialize();
+
+    expect(fetcher.setCookies).toHaveBeenCalledWith(['auth_token=old']);
+    expect(fetcher.login).not.toHaveBeenCalled();
+    expect((service as any).isLoggedIn).toBe(true);
+  });
+
+  it('logs in and saves the session when the saved one expired', async () => {
+    await fs.writeFile(cookieFile(), JSON.stringify(['auth_token=old']));
+
+    await service.initialize();
+
+    expect(fetcher.login).toHaveBeenCalledWith('me', 'me', 'me@example.com');
+    expect(JSON.parse(await fs.readFile(cookieFile(), 'utf-8'))).toEqual([
+      'auth_token=new; Path=/',
+    ]);
+    expect((await fs.stat(cookieFile())).mode & 0o777).toBe(0o600);
+  });
+
+  it('deletes a saved session that Twitter rejects', async () => {
+    await fs.writeFile(cookieFile(), JSON.stringify(['auth_token=old']));
+    (fetcher.setCookies as any).mockRejectedValue(
+      Object.assign(new Error('Response status: 401'), {
+        response: { status: 401 },
+      })
+    );
+    (fetcher.login as any).mockRejectedValue(new Error('Login failed'));
+
+    await service.initialize();
+
+    expect(fetcher.login).toHaveBeenCalled();
+    await expect(fs.access(cookieFile())).rejects.toThrow();
+    expect((service as any).isLoggedIn).toBe(false);
+  });
+
+  it('re-authenticates on the next update after an auth error', async () => {
+    await service.initialize();
+    expect(fetcher.login).toHaveBeenCalledTimes(1);
+
+    (fetcher.fetchListTweets as any).mockImplementationOnce(async () => {
+      valid = false;
+      throw Object.assign(new Error('Response status: 401'), {
+        response: { status: 401 },
+      });
+    });
+    await runWithFakeTimers(() => service.processAllLists());
+    expect((service as any).isLoggedIn).toBe(false);
+
+    await runWithFakeTimers(() => service.processAllLists());
+    expect(fetcher.login).toHaveBeenCalledTimes(2);
+    expect(fetcher.fetchListTweets).toHaveBeenCalledTimes(2);
+    expect((service as any).isLoggedIn).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTweetSources,
+  parseTwitterSearches,
+  parseTwitterUsers,
+  sourceLink,
+} from '../src/sources';
+
+describe('tweet sources', () => {
+  it('parses usernames with optional names', () => {
+    expect(parseTwitterUsers('@Jack:Jack Dorsey, elizaos')).toEqual([
+      { id: 'user-jack', type: 'user', query: 'Jack', name: 'Jack Dorsey' },
+      { id: 'user-elizaos', type: 'user', query: 'elizaos', name: '@elizaos' },
+    ]);
+  });
+
+  it('keeps search operators intact', () => {
+    const [search] = parseTwitterSearches('from:jack #ai');
+    expect(search).toEqual({
+      id: 'search-from-jack-ai',
+      type: 'search',
+      query: 'from:jack #ai',
+      name: 'from:jack #ai',
+    });
+    expect(sourceLink(search)).toBe(
+      'https://twitter.com/search?q=from%3Ajack%20%23ai&f=live'
+    );
+  });
+
+  it('orders lists before users and searches', () => {
+    const settings: Record<string, string> = {
+      TWITTER_LISTS: '111',
+      TWITTER_USERS: 'jack',
+      TWITTER_SEARCHES: '#ai',
+    };
+    expect(parseTweetSources((key) => settings[key]).map((s) => s.id)).toEqual([
+      '111',
+      'user-jack',
+      'search-ai',
+    ]);
+  });
+});
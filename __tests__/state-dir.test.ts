@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { migrateStateFiles } from '../src/services/stateDir';
+
+describe('state directory', () => {
+  it('moves state files out of the output directory', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-state-'));
+    const outputDir = path.join(root, 'feeds');
+    const stateDir = path.join(root, 'state');
+    await fs.mkdir(outputDir);
+    await fs.mkdir(stateDir);
+    await fs.writeFile(path.join(outputDir, 'twitter_lists.xml'), '<rss/>');
+    await fs.writeFile(path.join(outputDir, 'twitter_cookies.json'), '["a=1"]');
+    await fs.writeFile(path.join(outputDir, 'run_history.json'), '[]');
+    await fs.writeFile(path.join(stateDir, 'run_history.json'), '[{}]');
+
+    try {
+      expect(await migrateStateFiles(outputDir, stateDir)).toEqual([
+        'twitter_cookies.json',
+      ]);
+      expect(await fs.readdir(outputDir)).toEqual([
+        'run_history.json',
+        'twitter_lists.xml',
+      ]);
+      expect(
+        await fs.readFile(path.join(stateDir, 'twitter_cookies.json'), 'utf-8')
+      ).toBe('["a=1"]');
+      // The copy already in the state directory is kept.
+      expect(
+        await fs.readFile(path.join(stateDir, 'run_history.json'), 'utf-8')
+      ).toBe('[{}]');
+
+      expect(await migrateStateFiles(outputDir, outputDir)).toEqual([]);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
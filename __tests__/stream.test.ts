@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { RSSServerService } from '../src/services/rssServerService';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+/** Reads server-sent events from a streaming response until `count` arrived. */
+async function readEvents(response: Response, count: number) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ id: string; data: any }> = [];
+  let buffer = '';
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const field = (name: string) =>
+        block
+          .split('\n')
+          .find((line) => line.startsWith(`${name}: `))
+          ?.slice(name.length + 2);
+      if (field('event') === 'item') {
+        events.push({
+          id: field('id') as string,
+          data: JSON.parse(field('data') as string),
+        });
+      }
+    }
+  }
+  return events;
+}
+
+describe('Live item stream', () => {
+  it('pushes new items per list and resumes after Last-Event-ID', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-stream-'));
+    const now = Math.floor(Date.now() / 1000);
+    let nextId = 1;
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR')
+          return outputDir;
+        if (key === 'TWITTER_LISTS') return '111,222';
+        if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+        return undefined;
+      }),
+    });
+    const twitterService = new TwitterRSSService(
+      runtime as any,
+      createMockFetcher({
+        fetchListTweets: vi.fn(async (listId: string) => [
+          {
+            id: String(nextId++),
+            text: `a tweet from list ${listId}`,
+            username: 'a',
+            timestamp: now,
+          },
+        ]),
+      })
+    );
+    runtime.getService = vi.fn().mockReturnValue(twitterService);
+    const server = (new RSSServerService(runtime as any) as any).app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const aborts: AbortController[] = [];
+    const open = (query: string, headers: Record<string, string> = {}) => {
+      const abort = new AbortController();
+      aborts.push(abort);
+      return fetch(`${baseUrl}/stream${query}`, {
+        headers,
+        signal: abort.signal,
+      });
+    };
+
+    try {
+      expect((await open('?lists=999')).status).toBe(404);
+
+      const live = await open('?lists=111');
+      expect(live.headers.get('content-type')).toContain('text/event-stream');
+      await twitterService.processAllLists();
+      const [event] = await readEvents(live, 1);
+      expect(event.data.content).toContain('a tweet from list 111');
+      expect(event.data.sourceIds).toEqual(['111']);
+
+      await twitterService.processAllLists();
+      const resumed = await open('', { 'Last-Event-ID': event.id });
+      const replayed = await readEvents(resumed, 3);
+      expect(replayed.map((e) => e.data.content.split('\n')[0])).toEqual([
+        'a tweet from list 222',
+        'a tweet from list 111',
+        'a tweet from list 222',
+      ]);
+      expect(replayed.map((e) => Number(e.id))).toEqual([2, 3, 4]);
+
+      // A run that publishes while the replay is read is sent after it.
+      const readReplay =
+        twitterService.getPublishedItemsSince.bind(twitterService);
+      vi.spyOn(twitterService, 'getPublishedItemsSince').mockImplementationOnce(
+        async (sequence) => {
+          const items = await readReplay(sequence);
+          await twitterService.processAllLists();
+          return items;
+        }
+      );
+      const racing = await open('', { 'Last-Event-ID': event.id });
+      const raced = await readEvents(racing, 5);
+      expect(raced.map((e) => Number(e.id))).toEqual([2, 3, 4, 5, 6]);
+    } finally {
+      aborts.forEach((abort) => abort.abort());
+      server.close();
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { RSSServerService } from '../src/services/rssServerService';
+import { createMockRuntime } from './test-utils';
+
+describe('Subscriber tokens', () => {
+  let outputDir: string;
+  let server: any;
+  let baseUrl: string;
+  const admin = { Authorization: 'Bearer admin-secret' };
+
+  beforeAll(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-tokens-'));
+    await fs.mkdir(path.join(outputDir, 'lists'));
+    await fs.writeFile(path.join(outputDir, 'twitter_lists.xml'), '<rss/>');
+    await fs.writeFile(path.join(outputDir, 'lists', '111.xml'), '<rss/>');
+    await fs.writeFile(path.join(outputDir, 'lists', '222.xml'), '<rss/>');
+
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR') return outputDir;
+        if (key === 'TWITTER_LISTS') return '111,222';
+        if (key === 'RSS_API_TOKEN') return 'api-secret';
+        if (key === 'RSS_ADMIN_TOKEN') return 'admin-secret';
+        return undefined;
+      }),
+      getService: vi.fn().mockReturnValue(null),
+    });
+    server = (new RSSServerService(runtime as any) as any).app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  async function issue(
+    scopes: unknown,
+    headers: Record<string, string> = admin
+  ) {
+    return fetch(`${baseUrl}/tokens`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'reader', scopes }),
+    });
+  }
+
+  it('issues tokens only with the admin credential', async () => {
+    expect(
+      (await issue(['111'], { Authorization: 'Bearer api-secret' })).status
+    ).toBe(401);
+    expect((await issue(['999'])).status).toBe(400);
+    expect((await issue([])).status).toBe(400);
+
+    const update = await fetch(`${baseUrl}/update`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer api-secret' },
+    });
+    expect(update.status).toBe(401);
+  });
+
+  it('opens the feeds in scope by query parameter or path segment', async () => {
+    const { token, feedUrl } = await (await issue(['111', 'all'])).json();
+
+    expect((await fetch(`${baseUrl}/rss?token=${token}`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}${feedUrl}`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/t/${token}/rss/lists/111`)).status).toBe(
+      200
+    );
+    expect(
+      (await fetch(`${baseUrl}/rss/lists/222?token=${token}`)).status
+    ).toBe(403);
+    expect((await fetch(`${baseUrl}/status?token=${token}`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/rss?token=wrong`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/twitter_lists.xml`)).status).toBe(401);
+  });
+
+  it('lists tokens with their last use and revokes them', async () => {
+    const issued = await (await issue(['*'])).json();
+    await fetch(`${baseUrl}/atom?token=${issued.token}`);
+
+    const { tokens } = await (
+      await fetch(`${baseUrl}/tokens`, { headers: admin })
+    ).json();
+    const listed = tokens.find((token: any) => token.id === issued.id);
+    expect(listed.lastUsedAt).toBeTruthy();
+    expect(listed.revokedAt).toBeNull();
+    expect(listed).not.toHaveProperty('tokenHash');
+    expect(listed).not.toHaveProperty('token');
+
+    const revoked = await fetch(`${baseUrl}/tokens/${issued.id}`, {
+      method: 'DELETE',
+      headers: admin,
+    });
+    expect(revoked.status).toBe(200);
+    expect((await fetch(`${baseUrl}/rss?token=${issued.token}`)).status).toBe(
+      401
+    );
+
+    const stored = JSON.parse(
+      await fs.readFile(path.join(outputDir, 'subscriber_tokens.json'), 'utf-8')
+    );
+    expect(JSON.stringify(stored)).not.toContain(issued.token);
+  });
+});
@@ -9,6 +9,7 @@ import {
 } from './utils/core-test-utils';
 import { character } from '../src/index';
 import plugin from '../src/plugin';
+import type { TweetFetcher } from '../src/fetchers';
 
 /**
  * Creates an enhanced mock runtime for testing that includes the project's
@@ -40,6 +41,48 @@ export function createMockRuntime(overrides: Partial<IAgentRuntime> = {}): IAgen
   return mockRuntime;
 }
 
+/**
+ * Creates a mock tweet fetcher that is logged in and returns no tweets
+ *
+ * @param overrides - Optional overrides for the default fetcher methods
+ * @returns A mock fetcher to inject into TwitterRSSService
+ */
+export function createMockFetcher(overrides: Partial<TweetFetcher> = {}): TweetFetcher {
+  return {
+    requiresLogin: false,
+    login: vi.fn().mockResolvedValue(undefined),
+    isLoggedIn: vi.fn().mockResolvedValue(true),
+    fetchListTweets: vi.fn().mockResolvedValue([]),
+    fetchUserTweets: vi.fn().mockResolvedValue([]),
+    searchTweets: vi.fn().mockResolvedValue([]),
+    getTweet: vi.fn().mockResolvedValue(null),
+    ...overrides,
+  };
+}
+
+/**
+ * Runs a `processAllLists` call to completion, skipping the inter-source delay
+ *
+ * @param run - Starts the call, e.g. `() => service.processAllLists()`
+ * @returns The call's result
+ */
+export async function runWithFakeTimers<T>(run: () => Promise<T>): Promise<T> {
+  vi.useFakeTimers({ toFake: ['setTimeout'] });
+  try {
+    let settled = false;
+    const pending = run().finally(() => {
+      settled = true;
+    });
+    while (!settled) {
+      await new Promise((resolve) => setImmediate(resolve));
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+    return await pending;
+  } finally {
+    vi.useRealTimers();
+  }
+}
+
 /**
  * Creates a mock Message object for testing
  *
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import fs from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { WebhookDispatcher } from '../src/services/webhooks';
+import type { TweetData } from '../src/types';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+interface Received {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/** HTTP server recording every request, answering with `statuses` in turn. */
+async function startReceiver(statuses: number[] = []) {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ url: req.url as string, headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  server.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { server, url, received };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+function tweet(id: string, text: string): TweetData {
+  return {
+    id,
+    text,
+    author: { username: 'a', name: 'A' },
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    url: `https://twitter.com/a/status/${id}`,
+    metrics: { likes: 0, retweets: 0, replies: 0 },
+    isRetweet: false,
+    isReply: false,
+  };
+}
+
+async function readDeadLetters(stateDir: string): Promise<any[]> {
+  const data = await fs.readFile(
+    path.join(stateDir, 'webhook_dead_letters.jsonl'),
+    'utf-8'
+  );
+  return data
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+}
+
+describe('Webhooks', () => {
+  it('delivers signed per-list payloads after a run, per endpoint filters', async () => {
+    const receiver = await startReceiver();
+    const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-webhooks-'));
+    const now = Math.floor(Date.now() / 1000);
+    await fs.writeFile(
+      path.join(stateDir, 'webhooks.json'),
+      JSON.stringify({
+        endpoints: [
+          { id: 'all', url: `${receiver.url}/all`, secret: 'one' },
+          {
+            id: 'releases',
+            url: `${receiver.url}/releases`,
+            secret: 'two',
+            sources: ['111'],
+            filters: { include: [{ keywords: ['release'] }] },
+          },
+        ],
+      })
+    );
+    const runtime = createMockRuntime({
+      getSetting: vi.fn((key: string) => {
+        if (key === 'RSS_OUTPUT_DIR' || key === 'RSS_STATE_DIR')
+          return stateDir;
+        if (key === 'TWITTER_LISTS') return '111,222';
+        if (key === 'FETCH_REQUEST_INTERVAL_MS') return '0';
+        return undefined;
+      }),
+    });
+    const service = new TwitterRSSService(
+      runtime as any,
+      createMockFetcher({
+        fetchListTweets: vi.fn(async (listId: string) =>
+          listId === '111'
+            ? [
+                {
+                  id: '1',
+                  text: 'a new release is out',
+                  username: 'a',
+                  timestamp: now,
+                },
+                {
+                  id: '2',
+                  text: 'nothing to see here',
+                  username: 'a',
+                  timestamp: now,
+                },
+              ]
+            : [
+                {
+                  id: '3',
+                  text: 'another release today',
+                  username: 'b',
+                  timestamp: now,
+                },
+              ]
+        ),
+      })
+    );
+    try {
+      await service.processAllLists();
+      await waitFor(() => receiver.received.length === 2);
+
+      const all = receiver.received.find((r) => r.url === '/all')!;
+      const payload = JSON.parse(all.body);
+      expect(payload.endpoint).toBe('all');
+      expect(payload.runId).toEqual(expect.any(String));
+      expect(Object.keys(payload.lists).sort()).toEqual(['111', '222']);
+      expect(payload.lists['111'].map((t: TweetData) => t.id)).toEqual([
+        '1',
+        '2',
+      ]);
+      expect(all.headers['content-type']).toBe('application/json');
+      expect(all.headers['x-webhook-signature']).toBe(
+        `sha256=${createHmac('sha256', 'one').update(all.body).digest('hex')}`
+      );
+
+      const releases = receiver.received.find((r) => r.url === '/releases')!;
+      expect(JSON.parse(releases.body).lists).toEqual({
+        '111': [expect.objectContaining({ id: '1' })],
+      });
+
+      // Nothing new, so nothing is delivered.
+      await service.processAllLists();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(receiver.received).toHaveLength(2);
+    } finally {
+      await service.stop();
+      receiver.server.close();
+      await fs.rm(stateDir, { recursive: true, force: true });
+    }
+  });
+
+  it('retries failed deliveries and dead-letters permanent failures', async () => {
+    const receiver = await startReceiver([503, 200, 400, 500, 500]);
+    const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-webhooks-'));
+    const dispatcher = WebhookDispatcher.fromStateDir(stateDir, {
+      maxRetries: 1,
+      retryDelayMs: 1,
+    });
+    const endpoint = (id: string) => ({
+      id,
+      url: `${receiver.url}/${id}`,
+      secret: 's',
+    });
+    const published = { '111': [tweet('1', 'hello')] };
+    try {
+      // Retried once after the 503, then delivered.
+      await fs.writeFile(
+        path.join(stateDir, 'webhooks.json'),
+        JSON.stringify({ endpoints: [endpoint('flaky')] })
+      );
+      expect(await dispatcher.dispatch('run-1', published)).toBe(1);
+      expect(receiver.received).toHaveLength(2);
+
+      // A 400 is not retried; two 500s exhaust the single retry.
+      await fs.writeFile(
+        path.join(stateDir, 'webhooks.json'),
+        JSON.stringify({ endpoints: [endpoint('rejecting')] })
+      );
+      // The file's mtime must change for it to be re-read.
+      await fs.utimes(
+        path.join(stateDir, 'webhooks.json'),
+        new Date(),
+        new Date(Date.now() + 1000)
+      );
+      expect(await dispatcher.dispatch('run-2', published)).toBe(0);
+      expect(await dispatcher.dispatch('run-3', published)).toBe(0);
+      expect(receiver.received).toHaveLength(5);
+
+      const deadLetters = await readDeadLetters(stateDir);
+      expect(deadLetters).toHaveLength(2);
+      expect(deadLetters[0]).toMatchObject({
+        endpoint: 'rejecting',
+        attempts: 1,
+        error: 'Response status: 400',
+        payload: { runId: 'run-2', lists: { '111': [{ id: '1' }] } },
+      });
+      expect(deadLetters[1]).toMatchObject({
+        attempts: 2,
+        error: 'Response status: 500',
+        payload: { runId: 'run-3' },
+      });
+    } finally {
+      dispatcher.stop();
+      receiver.server.close();
+      await fs.rm(stateDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import fs from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { RSSServerService } from '../src/services/rssServerService';
+import { TwitterRSSService } from '../src/services/twitterRSSService';
+import { createMockFetcher, createMockRuntime } from './test-utils';
+
+interface Received {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/** HTTP server recording every request, answering GETs with `hub.challenge`. */
+async function startReceiver() {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({
+        method: req.method as string,
+        url: req.url as string,
+        headers: req.headers,
+        body,
+      });
+      const url = new URL(req.url as string, 'http://localhost');
+      res.end(url.searchParams.get('hub.challenge') ?? '');
+    });
+  });
+  server.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { server, url, received };
+}
+
+async function startFeedServer(settings: Record<string, string>) {
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rss-websub-'));
+  const now = Math.floor(Date.now() / 1000);
+  const config: Record<string, string> = {
+    RSS_OUTPUT_DIR: outputDir,
+    RSS_STATE_DIR: outputDir,
+    TWITTER_LISTS: '111',
+    FETCH_REQUEST_INTERVAL_MS: '0',
+    ...settings,
+  };
+  const runtime = createMockRuntime({
+    getSetting: vi.fn((key: string) => config[key]),
+  });
+  const twitterService = new TwitterRSSService(
+    runtime as any,
+    createMockFetcher({
+      fetchListTweets: vi.fn(async () => [
+        { id: '1', text: 'a tweet long enough', username: 'a', timestamp: now },
+      ]),
+    })
+  );
+  runtime.getService = vi.fn().mockReturnValue(twitterService);
+  const server = (new RSSServerService(runtime as any) as any).app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  config.RSS_PUBLIC_URL = baseUrl;
+  const close = async () => {
+    server.close();
+    await fs.rm(outputDir, { recursive: true, force: true });
+  };
+  return { twitterService, baseUrl, outputDir, close };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('WebSub', () => {
+  it('advertises the hub and notifies it after a run with new items', async () => {
+    const hub = await startReceiver();
+    const { twitterService, baseUrl, outputDir, close } = await startFeedServer(
+      { WEBSUB_HUB_URL: `${hub.url}/hub` }
+    );
+    try {
+      await twitterService.processAllLists();
+      // Hubs are notified in the background of the run.
+      const topicsOf = () =>
+        hub.received.map((request) =>
+          new URLSearchParams(request.body).get('hub.url')
+        );
+      await waitFor(
+        () =>
+          topicsOf().includes(`${baseUrl}/rss`) &&
+          topicsOf().includes(`${baseUrl}/atom/lists/111`)
+      );
+
+      const rss = await fs.readFile(
+        path.join(outputDir, 'twitter_lists.xml'),
+        'utf-8'
+      );
+      expect(rss).toContain(`<atom:link href="${hub.url}/hub" rel="hub"`);
+      const json = JSON.parse(
+        await fs.readFile(path.join(outputDir, 'twitter_lists.json'), 'utf-8')
+      );
+      expect(json.hubs).toEqual([{ type: 'WebSub', url: `${hub.url}/hub` }]);
+
+      const topics = topicsOf();
+      expect(topics).toContain(`${baseUrl}/rss`);
+      expect(topics).toContain(`${baseUrl}/atom/lists/111`);
+      expect(new URLSearchParams(hub.received[0].body).get('hub.mode')).toBe(
+        'publish'
+      );
+
+      // Nothing new, so the hub is not notified again.
+      const notified = hub.received.length;
+      await twitterService.processAllLists();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(hub.received.length).toBe(notified);
+    } finally {
+      hub.server.close();
+      await close();
+    }
+  });
+
+  it('verifies subscribers and pushes signed feeds from the built-in hub', async () => {
+    const subscriber = await startReceiver();
+    const { twitterService, baseUrl, close } = await startFeedServer({
+      WEBSUB_BUILTIN_HUB: 'true',
+    });
+    const subscribe = (topic: string) =>
+      fetch(`${baseUrl}/websub`, {
+        method: 'POST',
+        body: new URLSearchParams({
+          'hub.mode': 'subscribe',
+          'hub.topic': topic,
+          'hub.callback': `${subscriber.url}/callback`,
+          'hub.secret': 'shh',
+        }),
+      });
+    try {
+      expect((await subscribe(`${baseUrl}/rss/lists/999`)).status).toBe(400);
+      expect((await subscribe(`${baseUrl}/rss/lists/111`)).status).toBe(202);
+
+      const hub = twitterService.getWebSubHub()!;
+      for (let i = 0; i < 50 && (await hub.list()).length === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(await hub.list()).toHaveLength(1);
+      const verification = new URL(subscriber.received[0].url, baseUrl);
+      expect(verification.searchParams.get('hub.mode')).toBe('subscribe');
+      expect(verification.searchParams.get('hub.topic')).toBe(
+        `${baseUrl}/rss/lists/111`
+      );
+
+      await twitterService.processAllLists();
+      await waitFor(() => subscriber.received.some((r) => r.method === 'POST'));
+
+      const delivery = subscriber.received.find((r) => r.method === 'POST')!;
+      expect(delivery.body).toContain('a tweet long enough');
+      expect(delivery.headers['content-type']).toContain('application/rss+xml');
+      expect(delivery.headers.link).toContain(`<${baseUrl}/websub>; rel="hub"`);
+      expect(delivery.headers['x-hub-signature']).toBe(
+        `sha256=${createHmac('sha256', 'shh').update(delivery.body).digest('hex')}`
+      );
+    } finally {
+      subscriber.server.close();
+      await close();
+    }
+  });
+});
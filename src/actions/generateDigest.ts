@@ -0,0 +1,68 @@
+import {
+  Action,
+  Content,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { TwitterRSSService } from '../services/twitterRSSService';
+import { digestFeedRoute } from '../formats';
+import { logger } from '@elizaos/core';
+
+export const generateDigestAction: Action = {
+  name: 'GENERATE_RSS_DIGEST',
+  similes: ['RSS_DIGEST', 'SUMMARIZE_FEED', 'FEED_BRIEFING'],
+  description:
+    'Summarize the tweets published since the last digest into a briefing and publish it in the digest feed',
+
+  validate: async (
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(TwitterRSSService.serviceType);
+    return service instanceof TwitterRSSService;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const service = runtime.getService(
+        TwitterRSSService.serviceType
+      ) as TwitterRSSService;
+
+      if (!service) {
+        throw new Error('Twitter RSS service not available');
+      }
+
+      const digest = await service.generateDigest();
+
+      const responseContent: Content = {
+        text: digest
+          ? `📰 Digest of ${digest.tweetCount} tweets\n\n${digest.summary}\n\n📁 Digest feed: ${service.getPublicUrl()}${digestFeedRoute('rss')}`
+          : '📭 No new tweets since the last digest.',
+        source: message.content.source,
+        actions: ['GENERATE_RSS_DIGEST'],
+      };
+
+      await callback(responseContent);
+      return responseContent;
+    } catch (error: any) {
+      logger.error('RSS digest failed:', error);
+
+      const errorContent: Content = {
+        text: `❌ RSS digest failed: ${error.message}`,
+        source: message.content.source,
+      };
+
+      await callback(errorContent);
+      return errorContent;
+    }
+  },
+};
@@ -2,6 +2,12 @@ import { Action, Content, HandlerCallback, IAgentRuntime, Memory, State } from '
 import fs from 'fs/promises';
 import path from 'path';
 import { logger } from '@elizaos/core';
+import { feedFilename, feedRoute, sourceFeedRoute } from '../formats';
+import { nextSourceRun, parseUpdateSchedule } from '../schedule';
+import { RunHistory, summarizeRuns } from '../services/runHistory';
+import { DEFAULT_STATE_DIR } from '../services/stateDir';
+import { TwitterRSSService } from '../services/twitterRSSService';
+import { parseTweetSources, parseTwitterLists } from '../sources';
 
 export const getRSSStatusAction: Action = {
   name: 'GET_RSS_STATUS',
@@ -26,7 +32,9 @@ export const getRSSStatusAction: Action = {
     try {
       const outputDir =
         runtime.getSetting?.('RSS_OUTPUT_DIR') || process.env.RSS_OUTPUT_DIR || './rss-feeds';
-      const rssFile = path.join(outputDir, 'twitter_lists.xml');
+      const stateDir =
+        runtime.getSetting?.('RSS_STATE_DIR') || process.env.RSS_STATE_DIR || DEFAULT_STATE_DIR;
+      const rssFile = path.join(outputDir, feedFilename());
 
       let status = 'RSS Feed Status:\n';
 
@@ -39,19 +47,68 @@ export const getRSSStatusAction: Action = {
         status += `❌ RSS file not found\n`;
       }
 
-      const lists = (
-        runtime.getSetting?.('TWITTER_LISTS') || process.env.TWITTER_LISTS || ''
-      )
-        .split(',')
-        .filter(Boolean);
-      status += `📋 Monitoring ${lists.length} lists: ${lists.join(', ')}\n`;
-      status += `⏱️ Update interval: ${
-        runtime.getSetting?.('RSS_UPDATE_INTERVAL') || process.env.RSS_UPDATE_INTERVAL || '30'
-      } minutes\n`;
+      // The running service also knows lists changed from chat.
+      const service = runtime.getService?.(TwitterRSSService.serviceType);
+      const lists =
+        service instanceof TwitterRSSService
+          ? service.getLists()
+          : parseTwitterLists(
+              runtime.getSetting?.('TWITTER_LISTS') || process.env.TWITTER_LISTS
+            );
+      const sources =
+        service instanceof TwitterRSSService
+          ? service.getSources()
+          : parseTweetSources(
+              (key) => runtime.getSetting?.(key) || process.env[key]
+            );
+      const schedule = parseUpdateSchedule(
+        (key) => runtime.getSetting?.(key) || process.env[key],
+        sources
+      );
+      const nextRun = (sourceId: string) => {
+        const next = nextSourceRun(schedule, sourceId);
+        return next ? `next update ${new Date(next).toLocaleString()}` : 'no update scheduled';
+      };
+      status += `📋 Monitoring ${lists.length} lists: ${lists
+        .map((list) => `${list.name} (${list.listId})`)
+        .join(', ')}\n`;
+      for (const list of lists) {
+        status += `📡 ${list.name}: ${feedRoute('rss', list.listId)} (${nextRun(
+          list.listId
+        )})\n`;
+      }
+      const otherSources = sources.filter((source) => source.type !== 'list');
+      for (const source of otherSources) {
+        status += `${source.type === 'user' ? '👤' : '🔎'} ${
+          source.name
+        }: ${sourceFeedRoute('rss', source)} (${nextRun(source.id)})\n`;
+      }
+      status += `⏱️ Update schedule: ${schedule.cron}${
+        schedule.quietHours
+          ? ` (quiet hours ${schedule.quietHours.from}-${schedule.quietHours.to})`
+          : ''
+      }\n`;
       status += `🎯 Max tweets per update: ${
         runtime.getSetting?.('MAX_TWEETS_PER_LIST') || process.env.MAX_TWEETS_PER_LIST || '50'
       }\n`;
 
+      const history = RunHistory.fromStateDir(stateDir);
+      await history.load();
+      const [lastRun] = history.list(1);
+      if (lastRun) {
+        status += `🕘 Last run: ${lastRun.status} at ${new Date(
+          lastRun.startedAt as string
+        ).toLocaleString()} (${lastRun.triggers.join(', ')}, ${(
+          (lastRun.durationMs ?? 0) / 1000
+        ).toFixed(1)}s)${
+          lastRun.result ? `, ${lastRun.result.totalTweets} new tweets` : ''
+        }${lastRun.error ? `: ${lastRun.error}` : ''}\n`;
+        status += `📈 Last 24 hours: ${summarizeRuns(
+          history.list(),
+          new Date(Date.now() - 24 * 60 * 60 * 1000)
+        )}\n`;
+      }
+
       const responseContent: Content = {
         text: status,
         source: message.content.source,
@@ -0,0 +1,165 @@
+import {
+  Action,
+  Content,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { TwitterRSSService } from '../services/twitterRSSService';
+import { feedRoute } from '../formats';
+import { logger } from '@elizaos/core';
+import type { TwitterListConfig } from '../types';
+
+/**
+ * Whether the sender may change the monitored lists: their entity ID must
+ * be in `RSS_LIST_ADMINS`. Nobody may when it is unset.
+ */
+export function isListAdmin(runtime: IAgentRuntime, message: Memory): boolean {
+  const admins = String(
+    runtime.getSetting?.('RSS_LIST_ADMINS') || process.env.RSS_LIST_ADMINS || ''
+  )
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return Boolean(message.entityId) && admins.includes(message.entityId);
+}
+
+/**
+ * The new name in a chat command: double-quoted text, or what follows one
+ * of `words` after the list reference (`add list 1234567890 as Tech News`).
+ * Only renames take `to`, since "add list 1234567890 to my feeds" names no
+ * list.
+ */
+export function parseListName(
+  text: string,
+  words: string[] = ['as', 'named']
+): string | null {
+  const quoted = /["“”]([^"“”]+)["“”]/.exec(text);
+  if (quoted) return quoted[1].trim();
+  const named = new RegExp(
+    `\\d+\\S*\\s+(?:${words.join('|')})\\s+(.+)$`,
+    'i'
+  ).exec(text.trim());
+  return named ? named[1].trim().replace(/[.!?]+$/, '') : null;
+}
+
+/**
+ * A list management action: checks the sender is a list admin and that the
+ * message names a list, then applies `change` through the service.
+ */
+function createListAction(spec: {
+  name: string;
+  similes: string[];
+  description: string;
+  needsName?: boolean;
+  /** Words that introduce the name, see `parseListName`. */
+  nameWords?: string[];
+  change: (
+    service: TwitterRSSService,
+    text: string,
+    name: string | null,
+    changedBy: string
+  ) => Promise<TwitterListConfig>;
+  reply: (list: TwitterListConfig) => string;
+}): Action {
+  return {
+    name: spec.name,
+    similes: spec.similes,
+    description: spec.description,
+
+    validate: async (
+      runtime: IAgentRuntime,
+      _message: Memory,
+      _state: State
+    ): Promise<boolean> => {
+      const service = runtime.getService(TwitterRSSService.serviceType);
+      return service instanceof TwitterRSSService;
+    },
+
+    handler: async (
+      runtime: IAgentRuntime,
+      message: Memory,
+      _state: State,
+      options: any,
+      callback: HandlerCallback
+    ) => {
+      try {
+        const service = runtime.getService(
+          TwitterRSSService.serviceType
+        ) as TwitterRSSService;
+
+        if (!service) {
+          throw new Error('Twitter RSS service not available');
+        }
+        if (!isListAdmin(runtime, message)) {
+          throw new Error('You are not allowed to change the monitored lists');
+        }
+
+        const text = String(options?.list ?? message.content.text ?? '');
+        const name =
+          options?.name ??
+          parseListName(message.content.text ?? '', spec.nameWords);
+        if (spec.needsName && !name) {
+          throw new Error(
+            'Tell me the new name, e.g. "rename list 1234567890 to Tech News"'
+          );
+        }
+        const list = await spec.change(service, text, name, message.entityId);
+
+        const responseContent: Content = {
+          text: spec.reply(list),
+          source: message.content.source,
+          actions: [spec.name],
+        };
+
+        await callback(responseContent);
+        return responseContent;
+      } catch (error: any) {
+        logger.error(`${spec.name} failed:`, error);
+
+        const errorContent: Content = {
+          text: `❌ ${error.message}`,
+          source: message.content.source,
+        };
+
+        await callback(errorContent);
+        return errorContent;
+      }
+    },
+  };
+}
+
+export const addTwitterListAction = createListAction({
+  name: 'ADD_TWITTER_LIST',
+  similes: ['MONITOR_TWITTER_LIST', 'FOLLOW_LIST', 'ADD_LIST'],
+  description:
+    'Start monitoring a Twitter list, given by URL or ID, and publish a feed for it',
+  change: async (service, text, name, changedBy) => {
+    const list = await service.addList(text, name ?? undefined, changedBy);
+    // Fill the new list's feed right away instead of at the next tick.
+    service.requestUpdate('action', [list.listId]);
+    return list;
+  },
+  reply: (list) =>
+    `✅ Now monitoring ${list.name} (${list.listId}). Its feed will be at ${feedRoute('rss', list.listId)} once the first update finishes.`,
+});
+
+export const removeTwitterListAction = createListAction({
+  name: 'REMOVE_TWITTER_LIST',
+  similes: ['UNMONITOR_TWITTER_LIST', 'UNFOLLOW_LIST', 'REMOVE_LIST'],
+  description: 'Stop monitoring a Twitter list, given by URL or ID',
+  change: (service, text) => service.removeList(text),
+  reply: (list) => `🗑️ Stopped monitoring ${list.name} (${list.listId}).`,
+});
+
+export const renameTwitterListAction = createListAction({
+  name: 'RENAME_TWITTER_LIST',
+  similes: ['NAME_TWITTER_LIST', 'RENAME_LIST'],
+  description: 'Rename a monitored Twitter list, given by URL or ID',
+  needsName: true,
+  nameWords: ['as', 'to', 'named'],
+  change: (service, text, name, changedBy) =>
+    service.renameList(text, name as string, changedBy),
+  reply: (list) => `✏️ List ${list.listId} is now called ${list.name}.`,
+});
@@ -32,10 +32,10 @@ export const updateRSSAction: Action = {
         throw new Error('Twitter RSS service not available');
       }
 
-      const result = await service.processAllLists();
+      const result = await service.processAllLists(undefined, 'action');
 
       const responseContent: Content = {
-        text: `RSS feed updated successfully!\n📊 Processed ${result.totalTweets} new tweets\n📁 RSS file: ${result.rssPath}\n🕒 Last updated: ${new Date().toLocaleString()}`,
+        text: `RSS feed updated successfully!\n📊 Processed ${result.totalTweets} new tweets\n📰 Feed items: ${result.feedItems}\n📁 RSS file: ${result.rssPath}\n🕒 Last updated: ${new Date().toLocaleString()}`,
         source: message.content.source,
         actions: ['UPDATE_RSS_FEED'],
       };
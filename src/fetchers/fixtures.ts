@@ -0,0 +1,76 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { TweetFetcher } from './index';
+import { slugify } from '../sources';
+import type { RawTweetData } from '../types';
+
+/**
+ * Offline backend that replays recorded scraper responses from JSON files:
+ *
+ * - `lists/<listId>.json`, `users/<username>.json` and
+ *   `searches/<query slug>.json` hold an array of raw tweets, or a
+ *   `{ "tweets": [...] }` response as returned by the scraper
+ * - `tweets/<id>.json` holds a single tweet, used for thread lookups
+ *
+ * It needs no credentials and is always logged in.
+ */
+export class FixtureFetcher implements TweetFetcher {
+  readonly requiresLogin = false;
+
+  constructor(private dir: string) {}
+
+  async login(): Promise<void> {}
+
+  async isLoggedIn(): Promise<boolean> {
+    return true;
+  }
+
+  async fetchListTweets(
+    listId: string,
+    maxTweets: number
+  ): Promise<RawTweetData[]> {
+    return this.readTweets(path.join('lists', `${listId}.json`), maxTweets);
+  }
+
+  async fetchUserTweets(
+    username: string,
+    maxTweets: number
+  ): Promise<RawTweetData[]> {
+    return this.readTweets(path.join('users', `${username}.json`), maxTweets);
+  }
+
+  async searchTweets(
+    query: string,
+    maxTweets: number
+  ): Promise<RawTweetData[]> {
+    return this.readTweets(
+      path.join('searches', `${slugify(query)}.json`),
+      maxTweets
+    );
+  }
+
+  async getTweet(id: string): Promise<RawTweetData | null> {
+    try {
+      return await this.readJSON(path.join('tweets', `${id}.json`));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async readTweets(
+    file: string,
+    maxTweets: number
+  ): Promise<RawTweetData[]> {
+    const data = await this.readJSON(file);
+    const tweets = Array.isArray(data) ? data : data?.tweets;
+    if (!Array.isArray(tweets)) {
+      throw new Error(`Fixture ${file} does not contain a list of tweets`);
+    }
+    return tweets.slice(0, maxTweets);
+  }
+
+  private async readJSON(file: string): Promise<any> {
+    return JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf-8'));
+  }
+}
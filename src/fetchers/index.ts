@@ -0,0 +1,90 @@
+import { logger } from '@elizaos/core';
+import type { RawTweetData } from '../types';
+import { FixtureFetcher } from './fixtures';
+import { ProxyPool, ProxyStatus, parseProxyUrls } from './proxy';
+import { ScraperFetcher } from './scraper';
+
+export { FixtureFetcher } from './fixtures';
+export {
+  ProxyPool,
+  maskProxyUrl,
+  parseProxyUrls,
+  proxyUrlProblems,
+} from './proxy';
+export type { ProxyStatus } from './proxy';
+export {
+  DEFAULT_REQUEST_POLICY,
+  RateLimitError,
+  RequestBudgetExceededError,
+  RequestPolicy,
+  fetchErrorType,
+  rateLimitResetAt,
+} from './requestPolicy';
+export type { FetchErrorType, RequestPolicyOptions } from './requestPolicy';
+export { ScraperFetcher } from './scraper';
+
+/**
+ * Where tweets come from. `TwitterRSSService` only talks to Twitter through
+ * this interface, so a backend can be swapped for tests or offline runs.
+ */
+export interface TweetFetcher {
+  /** Whether `login` needs Twitter credentials before fetching works. */
+  readonly requiresLogin: boolean;
+  login(username: string, password: string, email: string): Promise<void>;
+  isLoggedIn(): Promise<boolean>;
+  fetchListTweets(listId: string, maxTweets: number): Promise<RawTweetData[]>;
+  fetchUserTweets(username: string, maxTweets: number): Promise<RawTweetData[]>;
+  searchTweets(query: string, maxTweets: number): Promise<RawTweetData[]>;
+  getTweet(id: string): Promise<RawTweetData | null>;
+  /** Session cookies as `Set-Cookie` strings, for backends with a session. */
+  getCookies?(): Promise<string[]>;
+  setCookies?(cookies: string[]): Promise<void>;
+  /** Proxy in use and per-proxy failure counts, or null without a proxy. */
+  proxyStatus?(): ProxyStatus | null;
+}
+
+/**
+ * Whether a fetch failed because the session is missing or expired, as
+ * opposed to a network error or a missing list.
+ */
+export function isAuthError(error: any): boolean {
+  const status = error?.response?.status ?? error?.status;
+  if (status === 401 || status === 403) return true;
+  return /response status: 40[13]\b|not logged-?in|could not authenticate|expired token/i.test(
+    String(error?.message ?? '')
+  );
+}
+
+export type TweetFetcherType = 'scraper' | 'fixtures';
+
+/**
+ * Creates the fetcher selected by `TWITTER_FETCHER`: the live scraper by
+ * default, routed through `PROXY_URL` when set, or recorded fixtures from
+ * `TWITTER_FIXTURES_DIR`.
+ */
+export function createTweetFetcher(
+  getConfig: (key: string) => string | undefined
+): TweetFetcher {
+  const type = (getConfig('TWITTER_FETCHER') || 'scraper') as TweetFetcherType;
+  switch (type) {
+    case 'fixtures':
+      return new FixtureFetcher(
+        getConfig('TWITTER_FIXTURES_DIR') || './fixtures'
+      );
+    case 'scraper':
+      return createScraperFetcher(getConfig);
+    default:
+      logger.warn(`Unknown TWITTER_FETCHER "${type}", using the scraper`);
+      return createScraperFetcher(getConfig);
+  }
+}
+
+function createScraperFetcher(
+  getConfig: (key: string) => string | undefined
+): ScraperFetcher {
+  const proxies = parseProxyUrls(getConfig('PROXY_URL'));
+  if (proxies.length === 0) return new ScraperFetcher();
+  return new ScraperFetcher(
+    new ProxyPool(proxies, parseInt(getConfig('PROXY_MAX_FAILURES') || '3'))
+  );
+}
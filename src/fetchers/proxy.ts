@@ -0,0 +1,194 @@
+import { logger } from '@elizaos/core';
+import { socksDispatcher } from 'fetch-socks';
+import { Dispatcher, ProxyAgent, fetch as undiciFetch } from 'undici';
+
+/** Consecutive failures after which the pool moves on to the next proxy. */
+const DEFAULT_MAX_FAILURES = 3;
+
+interface ProxyState {
+  url: string;
+  dispatcher?: Dispatcher;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: Date;
+}
+
+export interface ProxyStatus {
+  /** Proxy currently carrying Twitter traffic, with credentials masked. */
+  current: string;
+  proxies: Array<{
+    url: string;
+    requests: number;
+    failures: number;
+    consecutiveFailures: number;
+    lastError?: string;
+    lastFailureAt?: string;
+  }>;
+}
+
+/**
+ * Why a `PROXY_URL` entry cannot be used, or null when it can. SOCKS
+ * proxies always resolve hostnames themselves, so the `socks4h`/`socks5h`
+ * spellings are rejected rather than silently treated as something else.
+ */
+function checkProxyUrl(entry: string): string | null {
+  let protocol: string;
+  try {
+    protocol = new URL(entry).protocol;
+  } catch {
+    return 'not a valid URL';
+  }
+  if (/^socks[45]h:$/.test(protocol)) {
+    return `${protocol} is not supported, use ${protocol.slice(0, -2)}: (it resolves hostnames through the proxy too)`;
+  }
+  if (!/^(https?|socks[45]?):$/.test(protocol)) {
+    return `unsupported proxy protocol ${protocol}`;
+  }
+  return null;
+}
+
+function splitProxyUrls(value?: string | null): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Problems with the entries of `PROXY_URL`, for config validation. Entries
+ * are referred to by position, since they may hold credentials.
+ */
+export function proxyUrlProblems(value?: string | null): string[] {
+  return splitProxyUrls(value).flatMap((entry, index) => {
+    const problem = checkProxyUrl(entry);
+    return problem ? [`PROXY_URL entry ${index + 1}: ${problem}`] : [];
+  });
+}
+
+/**
+ * Parses `PROXY_URL`: one proxy, or a comma-separated pool. Supported
+ * schemes are `http`, `https`, `socks4`, `socks5` and `socks` (SOCKS5).
+ * Unusable entries are logged and skipped, so a typo in one of them does
+ * not keep the service from starting.
+ */
+export function parseProxyUrls(value?: string | null): string[] {
+  return splitProxyUrls(value).filter((entry, index) => {
+    const problem = checkProxyUrl(entry);
+    if (problem) {
+      logger.warn(`Ignoring PROXY_URL entry ${index + 1}: ${problem}`);
+    }
+    return !problem;
+  });
+}
+
+/** Replaces the password of a proxy URL so it can be logged. */
+export function maskProxyUrl(url: string): string {
+  const parsed = new URL(url);
+  if (parsed.password) parsed.password = '***';
+  return parsed.toString().replace(/\/$/, '');
+}
+
+/**
+ * Pool of proxies that all scraper requests are routed through. Traffic
+ * sticks to one proxy, since Twitter ties a session to its IP, and moves to
+ * the next one after `maxFailures` consecutive network errors, 407s, 429s or
+ * 5xx responses.
+ */
+export class ProxyPool {
+  private proxies: ProxyState[];
+  private index = 0;
+
+  constructor(
+    urls: string[],
+    private maxFailures: number = DEFAULT_MAX_FAILURES
+  ) {
+    if (urls.length === 0) {
+      throw new Error('A proxy pool needs at least one proxy URL');
+    }
+    this.proxies = urls.map((url) => ({
+      url,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+    }));
+  }
+
+  /** A `fetch` that sends each request through the current proxy. */
+  fetch = (async (input: any, init?: any) => {
+    const proxy = this.proxies[this.index];
+    proxy.requests++;
+    try {
+      const response = await undiciFetch(input, {
+        ...init,
+        dispatcher: this.dispatcherFor(proxy),
+      });
+      if (
+        response.status === 407 ||
+        response.status === 429 ||
+        response.status >= 500
+      ) {
+        this.recordFailure(proxy, `HTTP ${response.status}`);
+      } else {
+        proxy.consecutiveFailures = 0;
+      }
+      return response;
+    } catch (error: any) {
+      this.recordFailure(proxy, error.cause?.message || error.message);
+      throw error;
+    }
+  }) as unknown as typeof fetch;
+
+  status(): ProxyStatus {
+    return {
+      current: maskProxyUrl(this.proxies[this.index].url),
+      proxies: this.proxies.map((proxy) => ({
+        url: maskProxyUrl(proxy.url),
+        requests: proxy.requests,
+        failures: proxy.failures,
+        consecutiveFailures: proxy.consecutiveFailures,
+        lastError: proxy.lastError,
+        lastFailureAt: proxy.lastFailureAt?.toISOString(),
+      })),
+    };
+  }
+
+  private recordFailure(proxy: ProxyState, reason: string): void {
+    proxy.failures++;
+    proxy.consecutiveFailures++;
+    proxy.lastError = reason;
+    proxy.lastFailureAt = new Date();
+
+    const isCurrent = this.proxies[this.index] === proxy;
+    if (
+      isCurrent &&
+      this.proxies.length > 1 &&
+      proxy.consecutiveFailures >= this.maxFailures
+    ) {
+      this.index = (this.index + 1) % this.proxies.length;
+      this.proxies[this.index].consecutiveFailures = 0;
+      logger.warn(
+        `Proxy ${maskProxyUrl(proxy.url)} failed ${proxy.consecutiveFailures} times (${reason}), switching to ${maskProxyUrl(
+          this.proxies[this.index].url
+        )}`
+      );
+    }
+  }
+
+  private dispatcherFor(proxy: ProxyState): Dispatcher {
+    if (!proxy.dispatcher) {
+      const url = new URL(proxy.url);
+      proxy.dispatcher = url.protocol.startsWith('socks')
+        ? socksDispatcher({
+            type: url.protocol.startsWith('socks4') ? 4 : 5,
+            host: url.hostname,
+            port: parseInt(url.port || '1080'),
+            userId: decodeURIComponent(url.username) || undefined,
+            password: decodeURIComponent(url.password) || undefined,
+          })
+        : new ProxyAgent(proxy.url);
+    }
+    return proxy.dispatcher;
+  }
+}
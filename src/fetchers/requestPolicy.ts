@@ -0,0 +1,192 @@
+import { logger } from '@elizaos/core';
+import { isAuthError } from './index';
+
+/** Wait assumed when a rate-limit response does not say when it resets. */
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+export interface RequestPolicyOptions {
+  /** Retries after the first attempt of a request. */
+  maxRetries: number;
+  /** First backoff delay; it doubles on each retry, with jitter. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Minimum gap between the start of two requests. */
+  minIntervalMs: number;
+  /** Requests allowed per update run, shared by all sources. */
+  budget: number;
+  /** Longest rate-limit reset a request waits for before failing. */
+  maxRateLimitWaitMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicyOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  minIntervalMs: 2000,
+  budget: 200,
+  maxRateLimitWaitMs: 5 * 60 * 1000,
+};
+
+export class RateLimitError extends Error {
+  constructor(public resetAt: Date) {
+    super(`Rate limited until ${resetAt.toISOString()}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class RequestBudgetExceededError extends Error {
+  constructor(budget: number) {
+    super(`Request budget of ${budget} requests per update exhausted`);
+    this.name = 'RequestBudgetExceededError';
+  }
+}
+
+/**
+ * When a rate-limited request may be retried, as epoch milliseconds, or
+ * null when the error is not a rate limit. Reads `x-rate-limit-reset` and
+ * `Retry-After` from the response.
+ */
+export function rateLimitResetAt(
+  error: any,
+  now: number = Date.now()
+): number | null {
+  const status = error?.response?.status ?? error?.status;
+  if (status !== 429 && status !== 420) return null;
+
+  const headers = error.response?.headers;
+  const reset = headers?.get?.('x-rate-limit-reset');
+  if (reset && !isNaN(parseInt(reset))) return parseInt(reset) * 1000;
+
+  const retryAfter = headers?.get?.('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const at = isNaN(seconds) ? Date.parse(retryAfter) : now + seconds * 1000;
+    if (!isNaN(at)) return at;
+  }
+  return now + DEFAULT_RATE_LIMIT_WAIT_MS;
+}
+
+export type FetchErrorType =
+  | 'rate_limit'
+  | 'auth'
+  | 'budget'
+  | 'client'
+  | 'server'
+  | 'network';
+
+/** Coarse kind of a failed fetch, used as a metrics label. */
+export function fetchErrorType(error: any): FetchErrorType {
+  if (error instanceof RequestBudgetExceededError) return 'budget';
+  if (error instanceof RateLimitError || rateLimitResetAt(error) !== null) {
+    return 'rate_limit';
+  }
+  if (isAuthError(error)) return 'auth';
+  const status = error?.response?.status ?? error?.status;
+  if (typeof status === 'number') return status >= 500 ? 'server' : 'client';
+  return 'network';
+}
+
+/** Network errors, rate limits and server errors are worth retrying. */
+function isRetryable(error: any): boolean {
+  const status = error?.response?.status ?? error?.status;
+  if (typeof status === 'number') {
+    return status === 420 || status === 429 || status >= 500;
+  }
+  return !isAuthError(error);
+}
+
+/**
+ * Runs Twitter requests with jittered exponential backoff, waits out rate
+ * limits until their reset time, spaces requests out and caps how many
+ * requests one update run may make across all sources.
+ */
+export class RequestPolicy {
+  private used = 0;
+  private lastRequestAt = 0;
+  private rateLimitedUntil = 0;
+
+  private options: RequestPolicyOptions;
+
+  /** Options that are missing or not a number fall back to the defaults. */
+  constructor(options: Partial<RequestPolicyOptions> = {}) {
+    this.options = { ...DEFAULT_REQUEST_POLICY };
+    for (const [key, value] of Object.entries(options)) {
+      if (typeof value === 'number' && !isNaN(value) && value >= 0) {
+        this.options[key as keyof RequestPolicyOptions] = value;
+      }
+    }
+  }
+
+  /** Resets the request budget at the start of an update run. */
+  startRun(): void {
+    this.used = 0;
+  }
+
+  get remaining(): number {
+    return Math.max(0, this.options.budget - this.used);
+  }
+
+  async run<T>(label: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForTurn();
+      this.used++;
+      this.lastRequestAt = Date.now();
+
+      try {
+        return await request();
+      } catch (error: any) {
+        const resetAt = rateLimitResetAt(error);
+        if (resetAt !== null) {
+          this.rateLimitedUntil = Math.max(this.rateLimitedUntil, resetAt);
+        }
+        if (attempt >= this.options.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = resetAt === null ? this.backoff(attempt) : 0;
+        logger.warn(
+          `${label} failed (${error.message}), retrying${
+            delay ? ` in ${Math.round(delay / 1000)}s` : ''
+          } (attempt ${attempt + 2}/${this.options.maxRetries + 1})`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async waitForTurn(): Promise<void> {
+    if (this.used >= this.options.budget) {
+      throw new RequestBudgetExceededError(this.options.budget);
+    }
+
+    const now = Date.now();
+    if (this.rateLimitedUntil > now) {
+      if (this.rateLimitedUntil - now > this.options.maxRateLimitWaitMs) {
+        throw new RateLimitError(new Date(this.rateLimitedUntil));
+      }
+      logger.info(
+        `Rate limited, waiting until ${new Date(
+          this.rateLimitedUntil
+        ).toISOString()}`
+      );
+      await sleep(this.rateLimitedUntil - now);
+    }
+
+    const gap = this.lastRequestAt + this.options.minIntervalMs - Date.now();
+    if (gap > 0) await sleep(gap);
+  }
+
+  private backoff(attempt: number): number {
+    const delay = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** attempt
+    );
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0
+    ? new Promise((resolve) => setTimeout(resolve, ms))
+    : Promise.resolve();
+}
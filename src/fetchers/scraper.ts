@@ -0,0 +1,90 @@
+import { Scraper, SearchMode } from 'agent-twitter-client';
+import type { TweetFetcher } from './index';
+import type { ProxyPool, ProxyStatus } from './proxy';
+import type { RawTweetData } from '../types';
+
+/**
+ * Live backend built on the `agent-twitter-client` scraper, optionally
+ * sending every request through a proxy pool.
+ */
+export class ScraperFetcher implements TweetFetcher {
+  readonly requiresLogin = true;
+  private scraper: Scraper;
+
+  constructor(private proxies?: ProxyPool) {
+    this.scraper = new Scraper({
+      ...(proxies ? { fetch: proxies.fetch } : {}),
+      transform: { response: surfaceRateLimit },
+    });
+  }
+
+  async login(username: string, password: string, email: string) {
+    await this.scraper.login(username, password, email);
+  }
+
+  async isLoggedIn(): Promise<boolean> {
+    return this.scraper.isLoggedIn();
+  }
+
+  async fetchListTweets(
+    listId: string,
+    maxTweets: number
+  ): Promise<RawTweetData[]> {
+    const response = await this.scraper.fetchListTweets(listId, maxTweets);
+    return response.tweets as RawTweetData[];
+  }
+
+  async fetchUserTweets(
+    username: string,
+    maxTweets: number
+  ): Promise<RawTweetData[]> {
+    const tweets: RawTweetData[] = [];
+    for await (const tweet of this.scraper.getTweets(username, maxTweets)) {
+      tweets.push(tweet as RawTweetData);
+    }
+    return tweets;
+  }
+
+  async searchTweets(
+    query: string,
+    maxTweets: number
+  ): Promise<RawTweetData[]> {
+    const response = await this.scraper.fetchSearchTweets(
+      query,
+      maxTweets,
+      SearchMode.Latest
+    );
+    return response.tweets as RawTweetData[];
+  }
+
+  async getTweet(id: string): Promise<RawTweetData | null> {
+    return (await this.scraper.getTweet(id)) as RawTweetData | null;
+  }
+
+  async getCookies(): Promise<string[]> {
+    return (await this.scraper.getCookies()).map((cookie) => cookie.toString());
+  }
+
+  async setCookies(cookies: string[]): Promise<void> {
+    await this.scraper.setCookies(cookies);
+  }
+
+  proxyStatus(): ProxyStatus | null {
+    return this.proxies?.status() ?? null;
+  }
+}
+
+/**
+ * The scraper retries 429 responses in a loop of its own, without delay
+ * unless the remaining quota is zero. Relabelling them as 420 makes the
+ * scraper fail the request instead, so `RequestPolicy` can wait for the
+ * reset time and count the attempt against its budget.
+ */
+function surfaceRateLimit(response: Response): Response {
+  if (response.status !== 429) return response;
+  return new Response(response.body, {
+    status: 420,
+    statusText: 'Rate Limited',
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,237 @@
+import { logger } from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import type { TweetData } from '../types';
+
+/** Compiles a rule's pattern once, when the rules are parsed. */
+function compileRegex(pattern: string, ctx: z.RefinementCtx): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Invalid regular expression',
+    });
+    return z.NEVER;
+  }
+}
+
+/**
+ * A rule matches a tweet when every condition it sets holds. Text
+ * conditions look at the tweet text plus any retweeted or quoted text and
+ * ignore case.
+ */
+const filterRuleSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    keywords: z.array(z.string().min(1)).optional(),
+    regex: z.string().transform(compileRegex).optional(),
+    authors: z.array(z.string().min(1)).optional(),
+    languages: z.array(z.string().min(1)).optional(),
+    hasMedia: z.boolean().optional(),
+    minLikes: z.number().int().min(0).optional(),
+    minRetweets: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+export const filterRuleSetSchema = z
+  .object({
+    include: z.array(filterRuleSchema).default([]),
+    exclude: z.array(filterRuleSchema).default([]),
+  })
+  .strict();
+
+export const filterRulesSchema = z
+  .object({
+    global: filterRuleSetSchema.default({}),
+    /** Keyed by list ID, or by source ID for user and search sources. */
+    lists: z.record(filterRuleSetSchema).default({}),
+  })
+  .strict();
+
+export type FilterRule = z.infer<typeof filterRuleSchema>;
+export type FilterRuleSet = z.infer<typeof filterRuleSetSchema>;
+export type FilterRules = z.infer<typeof filterRulesSchema>;
+
+/** Per-source outcome of filtering, with drop counts keyed by rule name. */
+export interface FilterReport {
+  evaluated: number;
+  kept: number;
+  dropped: Record<string, number>;
+}
+
+export const NO_INCLUDE_MATCH = 'no include rule matched';
+
+export function createFilterReport(): FilterReport {
+  return { evaluated: 0, kept: 0, dropped: {} };
+}
+
+export function recordFilterResult(
+  report: FilterReport,
+  droppedBy: string | null
+): void {
+  report.evaluated++;
+  if (droppedBy) {
+    report.dropped[droppedBy] = (report.dropped[droppedBy] || 0) + 1;
+  } else {
+    report.kept++;
+  }
+}
+
+/**
+ * Declarative include/exclude rules loaded from a JSON file, applied
+ * globally and per list or source. A tweet is dropped when it matches any exclude
+ * rule, or when include rules exist and it matches none of them.
+ */
+export class TweetFilter {
+  private rules: FilterRules = filterRulesSchema.parse({});
+  private loadedMtime: number | null = null;
+
+  constructor(private filePath: string) {}
+
+  static fromStateDir(stateDir: string, filename?: string): TweetFilter {
+    return new TweetFilter(path.resolve(stateDir, filename || 'filters.json'));
+  }
+
+  /**
+   * (Re)loads the rule file when it changed since the last load. A missing
+   * file means no rules; an invalid file keeps the previous rules.
+   */
+  async load(): Promise<void> {
+    let mtime: number;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch {
+      this.rules = filterRulesSchema.parse({});
+      this.loadedMtime = null;
+      return;
+    }
+    if (mtime === this.loadedMtime) return;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.rules = filterRulesSchema.parse(data);
+      this.loadedMtime = mtime;
+      logger.info(`Loaded filter rules from ${this.filePath}`);
+    } catch (error: any) {
+      const message =
+        error instanceof z.ZodError
+          ? error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')
+          : error.message;
+      logger.warn(
+        `Ignoring invalid filter rules in ${this.filePath}: ${message}`
+      );
+    }
+  }
+
+  /** Returns the name of the rule that drops the tweet, or null to keep it. */
+  evaluate(tweet: TweetData, sourceId?: string): string | null {
+    const scopes: Array<[string, FilterRules['global']]> = [
+      ['global', this.rules.global],
+    ];
+    if (sourceId && this.rules.lists[sourceId]) {
+      scopes.push([`lists.${sourceId}`, this.rules.lists[sourceId]]);
+    }
+
+    for (const [scope, ruleSet] of scopes) {
+      for (const [index, rule] of ruleSet.exclude.entries()) {
+        if (matchesRule(tweet, rule)) {
+          return rule.name || `${scope}.exclude[${index}]`;
+        }
+      }
+    }
+
+    const includes = scopes.flatMap(([, ruleSet]) => ruleSet.include);
+    if (
+      includes.length > 0 &&
+      !includes.some((rule) => matchesRule(tweet, rule))
+    ) {
+      return NO_INCLUDE_MATCH;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Whether a tweet passes a single rule set: it matches no exclude rule and,
+ * when include rules exist, at least one of them.
+ */
+export function passesRuleSet(
+  tweet: TweetData,
+  ruleSet: FilterRuleSet
+): boolean {
+  return (
+    !ruleSet.exclude.some((rule) => matchesRule(tweet, rule)) &&
+    (ruleSet.include.length === 0 ||
+      ruleSet.include.some((rule) => matchesRule(tweet, rule)))
+  );
+}
+
+function matchesRule(tweet: TweetData, rule: FilterRule): boolean {
+  const text = [tweet.text, tweet.retweetedTweet?.text, tweet.quotedTweet?.text]
+    .filter(Boolean)
+    .join('\n');
+
+  if (
+    rule.keywords &&
+    !rule.keywords.some((keyword) =>
+      text.toLowerCase().includes(keyword.toLowerCase())
+    )
+  ) {
+    return false;
+  }
+
+  if (rule.regex && !rule.regex.test(text)) {
+    return false;
+  }
+
+  if (
+    rule.authors &&
+    !rule.authors.some(
+      (author) =>
+        author.replace(/^@/, '').toLowerCase() ===
+        tweet.author.username.toLowerCase()
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    rule.languages &&
+    !(
+      tweet.lang &&
+      rule.languages.some(
+        (language) => language.toLowerCase() === tweet.lang?.toLowerCase()
+      )
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    rule.hasMedia !== undefined &&
+    rule.hasMedia !== (tweet.media?.length ?? 0) > 0
+  ) {
+    return false;
+  }
+
+  if (
+    rule.minLikes !== undefined &&
+    (tweet.metrics?.likes ?? 0) < rule.minLikes
+  ) {
+    return false;
+  }
+
+  if (
+    rule.minRetweets !== undefined &&
+    (tweet.metrics?.retweets ?? 0) < rule.minRetweets
+  ) {
+    return false;
+  }
+
+  return true;
+}
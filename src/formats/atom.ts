@@ -0,0 +1,60 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import type { FeedModel } from '../types';
+
+/**
+ * Renders a feed as Atom 1.0. The feed is identified by its own URL and
+ * each entry by the tweet URL, which stay stable across runs.
+ */
+export function renderAtom(feed: FeedModel, selfUrl: string): string {
+  const atomData = {
+    feed: {
+      '@_xmlns': 'http://www.w3.org/2005/Atom',
+      id: selfUrl,
+      title: feed.title,
+      subtitle: feed.description,
+      updated: feed.updated.toISOString(),
+      link: [
+        {
+          '@_href': selfUrl,
+          '@_rel': 'self',
+          '@_type': 'application/atom+xml',
+        },
+        { '@_href': feed.link, '@_rel': 'alternate', '@_type': 'text/html' },
+        ...(feed.hub ? [{ '@_href': feed.hub, '@_rel': 'hub' }] : []),
+      ],
+      generator: 'ElizaOS Twitter RSS Agent',
+      entry: feed.items.map((item) => ({
+        id: item.link,
+        title: item.title,
+        link: [
+          { '@_href': item.link, '@_rel': 'alternate' },
+          ...(item.image
+            ? [
+                {
+                  '@_href': item.image.url,
+                  '@_rel': 'enclosure',
+                  '@_type': item.image.type,
+                },
+              ]
+            : []),
+        ],
+        published: item.published.toISOString(),
+        updated: item.published.toISOString(),
+        author: {
+          name: `${item.author.name} (@${item.author.username})`,
+          uri: item.author.url,
+        },
+        content: { '@_type': 'html', '#text': item.contentHtml },
+        category: item.categories.map((term) => ({ '@_term': term })),
+      })),
+    },
+  };
+
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    format: true,
+    suppressEmptyNode: true,
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + builder.build(atomData);
+}
@@ -0,0 +1,115 @@
+import type { TweetData } from '../types';
+
+const IMAGE_TYPES: Record<string, string> = {
+  gif: 'image/gif',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders a tweet as the HTML body of a feed item: a linked author header,
+ * the text with links, inline media, the retweeted or quoted tweet as a
+ * blockquote, engagement metrics and the thread as an ordered list.
+ */
+export function renderTweetHtml(tweet: TweetData): string {
+  const parts: string[] = [];
+
+  if (tweet.retweetedTweet) {
+    parts.push(
+      `<p>🔄 ${renderAuthor(tweet)} retweeted</p>`,
+      `<blockquote>${renderBody(tweet.retweetedTweet)}</blockquote>`
+    );
+  } else {
+    parts.push(renderBody(tweet));
+  }
+
+  if (tweet.metrics) {
+    parts.push(
+      `<p>❤️ ${tweet.metrics.likes} | 🔄 ${tweet.metrics.retweets} | 💬 ${tweet.metrics.replies}</p>`
+    );
+  }
+
+  if (tweet.thread && tweet.thread.length > 0) {
+    const replies = tweet.thread
+      .map((reply) => `<li>${renderBody(reply)}</li>`)
+      .join('');
+    parts.push(`<p>Thread:</p><ol>${replies}</ol>`);
+  }
+
+  return parts.join('\n');
+}
+
+/** First image attached to the tweet, or to the tweet it retweets or quotes. */
+export function primaryImage(
+  tweet: TweetData
+): { url: string; type: string } | undefined {
+  for (const candidate of [tweet, tweet.retweetedTweet, tweet.quotedTweet]) {
+    const image = candidate?.media?.find((media) => media.type === 'image');
+    if (image) {
+      return { url: image.url, type: imageType(image.url) };
+    }
+  }
+  return undefined;
+}
+
+function renderBody(tweet: TweetData): string {
+  const parts = [
+    `<p>${renderAuthor(tweet)} · <a href="${escapeHtml(tweet.url)}">${escapeHtml(
+      tweet.createdAt.toUTCString()
+    )}</a></p>`,
+    `<p>${renderText(tweet.text)}</p>`,
+  ];
+
+  for (const media of tweet.media || []) {
+    if (media.type === 'image') {
+      parts.push(
+        `<p><img src="${escapeHtml(media.url)}" alt="${escapeHtml(
+          media.alt || ''
+        )}" /></p>`
+      );
+    } else if (media.preview) {
+      parts.push(
+        `<p><a href="${escapeHtml(tweet.url)}"><img src="${escapeHtml(
+          media.preview
+        )}" alt="Video" /></a></p>`
+      );
+    }
+  }
+
+  if (tweet.quotedTweet) {
+    parts.push(`<blockquote>${renderBody(tweet.quotedTweet)}</blockquote>`);
+  }
+
+  return parts.join('');
+}
+
+function renderAuthor(tweet: TweetData): string {
+  const profile = `https://twitter.com/${encodeURIComponent(
+    tweet.author.username
+  )}`;
+  return `<a href="${profile}"><strong>${escapeHtml(
+    tweet.author.name
+  )}</strong> @${escapeHtml(tweet.author.username)}</a>${
+    tweet.author.verified ? ' ✔️' : ''
+  }`;
+}
+
+function renderText(text: string): string {
+  return escapeHtml(text)
+    .replace(/https?:\/\/[^\s<]+/g, (url) => `<a href="${url}">${url}</a>`)
+    .replace(/\n/g, '<br />');
+}
+
+function imageType(url: string): string {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return (extension && IMAGE_TYPES[extension]) || 'image/jpeg';
+}
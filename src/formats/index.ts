@@ -0,0 +1,103 @@
+import path from 'path';
+import type { FeedModel, TweetSource } from '../types';
+import { renderAtom } from './atom';
+import { renderJSONFeed } from './jsonFeed';
+import { renderRSS } from './rss';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+interface FeedFormatSpec {
+  /** Route prefix the format is served under. */
+  route: string;
+  extension: string;
+  contentType: string;
+  render: (feed: FeedModel, selfUrl: string) => string;
+}
+
+export const FEED_FORMATS: Record<FeedFormat, FeedFormatSpec> = {
+  rss: {
+    route: '/rss',
+    extension: 'xml',
+    contentType: 'application/rss+xml',
+    render: renderRSS,
+  },
+  atom: {
+    route: '/atom',
+    extension: 'atom',
+    contentType: 'application/atom+xml',
+    render: renderAtom,
+  },
+  json: {
+    route: '/feed.json',
+    extension: 'json',
+    contentType: 'application/feed+json',
+    render: renderJSONFeed,
+  },
+};
+
+export const FEED_FORMAT_NAMES = Object.keys(FEED_FORMATS) as FeedFormat[];
+
+/** Output filename of the combined feed, or of one list's feed. */
+export function feedFilename(
+  listId?: string,
+  format: FeedFormat = 'rss'
+): string {
+  const { extension } = FEED_FORMATS[format];
+  if (!listId) return `twitter_lists.${extension}`;
+  return path.join('lists', `${listId.replace(/[^\w-]/g, '_')}.${extension}`);
+}
+
+/** HTTP path a feed is served under, relative to the server root. */
+export function feedRoute(format: FeedFormat, listId?: string): string {
+  const { route } = FEED_FORMATS[format];
+  return listId ? `${route}/lists/${encodeURIComponent(listId)}` : route;
+}
+
+/** Output filename of the digest feed. */
+export function digestFeedFilename(format: FeedFormat = 'rss'): string {
+  return `digest.${FEED_FORMATS[format].extension}`;
+}
+
+/** HTTP path of the digest feed. */
+export function digestFeedRoute(format: FeedFormat): string {
+  return `${FEED_FORMATS[format].route}/digest`;
+}
+
+/**
+ * Output filename of a source's feed. List sources keep their `lists/`
+ * filename; user and search sources are written under `sources/`.
+ */
+export function sourceFeedFilename(
+  source: TweetSource,
+  format: FeedFormat = 'rss'
+): string {
+  if (source.type === 'list') return feedFilename(source.query, format);
+  const { extension } = FEED_FORMATS[format];
+  return path.join(
+    'sources',
+    `${source.id.replace(/[^\w-]/g, '_')}.${extension}`
+  );
+}
+
+/** HTTP path of a source's feed; lists keep their `/lists/` path. */
+export function sourceFeedRoute(
+  format: FeedFormat,
+  source: TweetSource
+): string {
+  if (source.type === 'list') return feedRoute(format, source.query);
+  const { route } = FEED_FORMATS[format];
+  return `${route}/sources/${encodeURIComponent(source.id)}`;
+}
+
+/**
+ * Media types understood when negotiating a feed format from `Accept`, in
+ * order of preference. Generic XML maps to RSS and generic JSON to JSON Feed.
+ */
+export const NEGOTIABLE_MEDIA_TYPES: Record<string, FeedFormat> = {
+  'application/rss+xml': 'rss',
+  'application/atom+xml': 'atom',
+  'application/feed+json': 'json',
+  'application/xml': 'rss',
+  'text/xml': 'rss',
+  'application/json': 'json',
+};
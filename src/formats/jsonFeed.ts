@@ -0,0 +1,33 @@
+import type { FeedModel } from '../types';
+
+/** Renders a feed as JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/). */
+export function renderJSONFeed(feed: FeedModel, selfUrl: string): string {
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      description: feed.description,
+      home_page_url: feed.link,
+      feed_url: selfUrl,
+      ...(feed.hub && { hubs: [{ type: 'WebSub', url: feed.hub }] }),
+      items: feed.items.map((item) => ({
+        id: item.id,
+        url: item.link,
+        title: item.title,
+        content_html: item.contentHtml,
+        content_text: item.content,
+        image: item.image?.url,
+        date_published: item.published.toISOString(),
+        authors: [
+          {
+            name: `${item.author.name} (@${item.author.username})`,
+            url: item.author.url,
+          },
+        ],
+        tags: item.categories,
+      })),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,62 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import type { FeedModel } from '../types';
+
+/** Renders a feed as RSS 2.0. */
+export function renderRSS(feed: FeedModel, selfUrl: string): string {
+  const rssData = {
+    rss: {
+      '@_version': '2.0',
+      '@_xmlns:atom': 'http://www.w3.org/2005/Atom',
+      '@_xmlns:content': 'http://purl.org/rss/1.0/modules/content/',
+      '@_xmlns:media': 'http://search.yahoo.com/mrss/',
+      channel: {
+        title: feed.title,
+        description: feed.description,
+        link: feed.link,
+        lastBuildDate: feed.updated.toUTCString(),
+        generator: 'ElizaOS Twitter RSS Agent',
+        'atom:link': [
+          {
+            '@_href': selfUrl,
+            '@_rel': 'self',
+            '@_type': 'application/rss+xml',
+          },
+          ...(feed.hub ? [{ '@_href': feed.hub, '@_rel': 'hub' }] : []),
+        ],
+        item: feed.items.map((item) => ({
+          title: item.title,
+          description: { '#cdata': item.contentHtml },
+          'content:encoded': { '#cdata': item.contentHtml },
+          link: item.link,
+          pubDate: item.published.toUTCString(),
+          guid: {
+            '@_isPermaLink': 'false',
+            '#text': item.id,
+          },
+          author: `${item.author.name} (@${item.author.username})`,
+          category: item.categories,
+          ...(item.image && {
+            enclosure: {
+              '@_url': item.image.url,
+              '@_type': item.image.type,
+              '@_length': '0',
+            },
+            'media:content': {
+              '@_url': item.image.url,
+              '@_type': item.image.type,
+              '@_medium': 'image',
+            },
+          }),
+        })),
+      },
+    },
+  };
+
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    format: true,
+    cdataPropName: '#cdata',
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + builder.build(rssData);
+}
@@ -121,6 +121,21 @@ export const character: Character = {
         },
       },
     ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Give me a digest of what happened on my lists',
+        },
+      },
+      {
+        name: 'TwitterRSSAgent',
+        content: {
+          text: 'Summarizing the tweets published since the last digest...',
+          actions: ['GENERATE_RSS_DIGEST'],
+        },
+      },
+    ],
     [
       {
         name: '{{name1}}',
@@ -0,0 +1,195 @@
+/**
+ * Minimal Prometheus metrics in the text exposition format (version
+ * 0.0.4): counters, gauges and histograms with labels, rendered by
+ * `MetricsRegistry.render()` for `GET /metrics`.
+ */
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string>;
+
+/** Buckets in seconds for HTTP request latency. */
+export const HTTP_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/** Buckets in seconds for update runs, which take seconds to minutes. */
+export const RUN_DURATION_BUCKETS = [1, 5, 10, 30, 60, 120, 300, 600, 1800];
+
+abstract class Metric {
+  protected series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    protected type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  protected entry(labels: Labels) {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: 0 };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ];
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.entry(labels).value += value;
+  }
+}
+
+export class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels).value = value;
+  }
+
+  /** Drops every series, for gauges rebuilt on each scrape. */
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  private histograms = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    name: string,
+    help: string,
+    private buckets: number[]
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.histograms.set(key, histogram);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) histogram.counts[index]++;
+    });
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.histograms.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({
+            ...labels,
+            le: String(bound),
+          })} ${counts[index]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      );
+    }
+    return lines;
+  }
+}
+
+/**
+ * Holds metrics and renders them. Collectors run before each render, to
+ * refresh gauges that are read from state rather than counted as they
+ * happen.
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Array<() => void | Promise<void>> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  onCollect(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      await collector();
+    }
+    return `${this.metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1))
+  );
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries
+    .map(
+      ([key, value]) =>
+        `${key}="${value
+          .replace(/\\/g, '\\\\')
+          .replace(/\n/g, '\\n')
+          .replace(/"/g, '\\"')}"`
+    )
+    .join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
@@ -4,7 +4,14 @@ import { TwitterRSSService } from './services/twitterRSSService';
 import { RSSServerService } from './services/rssServerService';
 import { updateRSSAction } from './actions/updateRSS';
 import { getRSSStatusAction } from './actions/getRSSStatus';
+import { generateDigestAction } from './actions/generateDigest';
+import {
+  addTwitterListAction,
+  removeTwitterListAction,
+  renameTwitterListAction,
+} from './actions/manageLists';
 import { twitterListProvider } from './providers/twitterList';
+import { proxyUrlProblems } from './fetchers';
 
 const configSchema = z.object({
   TWITTER_USERNAME: z.string().min(1, 'Twitter username is required').optional(),
@@ -14,21 +21,87 @@ const configSchema = z.object({
     .string()
     .min(1, 'At least one Twitter list ID is required')
     .optional(),
+  TWITTER_USERS: z.string().optional(),
+  TWITTER_SEARCHES: z.string().optional(),
+  TWITTER_FETCHER: z.enum(['scraper', 'fixtures']).optional(),
+  TWITTER_FIXTURES_DIR: z.string().optional(),
+  TWITTER_COOKIES_FILE: z.string().optional(),
+  PROXY_URL: z
+    .string()
+    .optional()
+    .superRefine((value, ctx) => {
+      for (const message of proxyUrlProblems(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }
+    }),
+  PROXY_MAX_FAILURES: z
+    .string()
+    .transform((val) => parseInt(val || '3'))
+    .optional(),
   RSS_UPDATE_INTERVAL: z.string().transform((val) => parseInt(val || '30')).optional(),
+  RSS_UPDATE_CRON: z.string().optional(),
+  RSS_LIST_SCHEDULES: z.string().optional(),
+  RSS_QUIET_HOURS: z.string().optional(),
+  RSS_SKIP_INITIAL_RUN: z.string().transform((val) => val === 'true').optional(),
+  RSS_RUN_HISTORY_SIZE: z.string().transform((val) => parseInt(val || '50')).optional(),
+  RSS_READY_MAX_RUN_AGE_MINUTES: z.string().optional(),
+  RSS_READY_MAX_CONSECUTIVE_FAILURES: z
+    .string()
+    .transform((val) => parseInt(val || '3'))
+    .optional(),
   MAX_TWEETS_PER_LIST: z.string().transform((val) => parseInt(val || '50')).optional(),
   RSS_API_TOKEN: z.string().optional(),
+  RSS_ADMIN_TOKEN: z.string().optional(),
   RSS_FEED_TITLE: z.string().optional().default('Twitter Lists RSS Feed'),
   RSS_FEED_DESCRIPTION: z
     .string()
     .optional()
     .default('Aggregated tweets from monitored Twitter lists'),
   RSS_OUTPUT_DIR: z.string().optional().default('./rss-feeds'),
+  RSS_STATE_DIR: z.string().optional().default('./rss-state'),
+  WEBSUB_HUB_URL: z.string().optional(),
+  WEBSUB_BUILTIN_HUB: z.string().transform((val) => val === 'true').optional(),
+  RSS_PUBLIC_URL: z.string().url('RSS_PUBLIC_URL must be a valid URL').optional(),
   RSS_SERVER_PORT: z.string().transform((val) => parseInt(val || '3001')).optional(),
   FILTER_RETWEETS: z.string().transform((val) => val === 'true').optional(),
   FILTER_REPLIES: z.string().transform((val) => val === 'true').optional(),
   MIN_TWEET_LENGTH: z.string().transform((val) => parseInt(val || '10')).optional(),
   MAX_RSS_ENTRIES: z.string().transform((val) => parseInt(val || '500')).optional(),
   FETCH_TWEET_THREADS: z.string().transform((val) => val === 'true').optional(),
+  FETCH_MAX_RETRIES: z.string().transform((val) => parseInt(val || '3')).optional(),
+  FETCH_REQUEST_INTERVAL_MS: z
+    .string()
+    .transform((val) => parseInt(val || '2000'))
+    .optional(),
+  FETCH_REQUEST_BUDGET: z.string().transform((val) => parseInt(val || '200')).optional(),
+  FETCH_RATE_LIMIT_MAX_WAIT_SECONDS: z
+    .string()
+    .transform((val) => parseInt(val || '300'))
+    .optional(),
+  RSS_FILTERS_FILE: z.string().optional(),
+  RSS_WEBHOOKS_FILE: z.string().optional(),
+  WEBHOOK_MAX_RETRIES: z.string().transform((val) => parseInt(val || '3')).optional(),
+  WEBHOOK_RETRY_DELAY_MS: z
+    .string()
+    .transform((val) => parseInt(val || '5000'))
+    .optional(),
+  RSS_CHAT_CHANNELS_FILE: z.string().optional(),
+  RSS_DIGEST_SCHEDULE: z.string().optional(),
+  RSS_DIGEST_MAX_TWEETS: z.string().transform((val) => parseInt(val || '200')).optional(),
+  RSS_LISTS_FILE: z.string().optional(),
+  RSS_LIST_ADMINS: z.string().optional(),
+  CHAT_DELIVERY_MAX_PER_HOUR: z
+    .string()
+    .transform((val) => parseInt(val || '10'))
+    .optional(),
+  PROCESSED_TWEET_RETENTION_DAYS: z
+    .string()
+    .transform((val) => parseInt(val || '30'))
+    .optional(),
+  PROCESSED_TWEET_MAX_ENTRIES: z
+    .string()
+    .transform((val) => parseInt(val || '10000'))
+    .optional(),
 });
 
 export function setupGracefulShutdown(runtime: IAgentRuntime) {
@@ -49,19 +122,54 @@ const plugin: Plugin = {
     TWITTER_PASSWORD: process.env.TWITTER_PASSWORD,
     TWITTER_EMAIL: process.env.TWITTER_EMAIL,
     TWITTER_LISTS: process.env.TWITTER_LISTS,
+    TWITTER_USERS: process.env.TWITTER_USERS,
+    TWITTER_SEARCHES: process.env.TWITTER_SEARCHES,
+    TWITTER_FETCHER: process.env.TWITTER_FETCHER,
+    TWITTER_FIXTURES_DIR: process.env.TWITTER_FIXTURES_DIR,
+    TWITTER_COOKIES_FILE: process.env.TWITTER_COOKIES_FILE,
+    PROXY_URL: process.env.PROXY_URL,
+    PROXY_MAX_FAILURES: process.env.PROXY_MAX_FAILURES,
     RSS_UPDATE_INTERVAL: process.env.RSS_UPDATE_INTERVAL || '30',
+    RSS_UPDATE_CRON: process.env.RSS_UPDATE_CRON,
+    RSS_LIST_SCHEDULES: process.env.RSS_LIST_SCHEDULES,
+    RSS_QUIET_HOURS: process.env.RSS_QUIET_HOURS,
+    RSS_SKIP_INITIAL_RUN: process.env.RSS_SKIP_INITIAL_RUN || 'false',
+    RSS_RUN_HISTORY_SIZE: process.env.RSS_RUN_HISTORY_SIZE || '50',
+    RSS_READY_MAX_RUN_AGE_MINUTES: process.env.RSS_READY_MAX_RUN_AGE_MINUTES,
+    RSS_READY_MAX_CONSECUTIVE_FAILURES: process.env.RSS_READY_MAX_CONSECUTIVE_FAILURES || '3',
     MAX_TWEETS_PER_LIST: process.env.MAX_TWEETS_PER_LIST || '50',
     RSS_API_TOKEN: process.env.RSS_API_TOKEN,
+    RSS_ADMIN_TOKEN: process.env.RSS_ADMIN_TOKEN,
     RSS_FEED_TITLE: process.env.RSS_FEED_TITLE || 'Twitter Lists RSS Feed',
     RSS_FEED_DESCRIPTION:
       process.env.RSS_FEED_DESCRIPTION || 'Aggregated tweets from monitored Twitter lists',
     RSS_OUTPUT_DIR: process.env.RSS_OUTPUT_DIR || './rss-feeds',
+    RSS_STATE_DIR: process.env.RSS_STATE_DIR || './rss-state',
+    WEBSUB_HUB_URL: process.env.WEBSUB_HUB_URL,
+    WEBSUB_BUILTIN_HUB: process.env.WEBSUB_BUILTIN_HUB || 'false',
     RSS_SERVER_PORT: process.env.RSS_SERVER_PORT || '3001',
+    RSS_PUBLIC_URL: process.env.RSS_PUBLIC_URL,
     FILTER_RETWEETS: process.env.FILTER_RETWEETS || 'false',
     FILTER_REPLIES: process.env.FILTER_REPLIES || 'false',
     MIN_TWEET_LENGTH: process.env.MIN_TWEET_LENGTH || '10',
     MAX_RSS_ENTRIES: process.env.MAX_RSS_ENTRIES || '500',
     FETCH_TWEET_THREADS: process.env.FETCH_TWEET_THREADS || 'false',
+    FETCH_MAX_RETRIES: process.env.FETCH_MAX_RETRIES || '3',
+    FETCH_REQUEST_INTERVAL_MS: process.env.FETCH_REQUEST_INTERVAL_MS || '2000',
+    FETCH_REQUEST_BUDGET: process.env.FETCH_REQUEST_BUDGET || '200',
+    FETCH_RATE_LIMIT_MAX_WAIT_SECONDS: process.env.FETCH_RATE_LIMIT_MAX_WAIT_SECONDS || '300',
+    RSS_FILTERS_FILE: process.env.RSS_FILTERS_FILE,
+    RSS_WEBHOOKS_FILE: process.env.RSS_WEBHOOKS_FILE,
+    WEBHOOK_MAX_RETRIES: process.env.WEBHOOK_MAX_RETRIES || '3',
+    WEBHOOK_RETRY_DELAY_MS: process.env.WEBHOOK_RETRY_DELAY_MS || '5000',
+    RSS_CHAT_CHANNELS_FILE: process.env.RSS_CHAT_CHANNELS_FILE,
+    CHAT_DELIVERY_MAX_PER_HOUR: process.env.CHAT_DELIVERY_MAX_PER_HOUR || '10',
+    RSS_DIGEST_SCHEDULE: process.env.RSS_DIGEST_SCHEDULE,
+    RSS_DIGEST_MAX_TWEETS: process.env.RSS_DIGEST_MAX_TWEETS || '200',
+    RSS_LISTS_FILE: process.env.RSS_LISTS_FILE,
+    RSS_LIST_ADMINS: process.env.RSS_LIST_ADMINS,
+    PROCESSED_TWEET_RETENTION_DAYS: process.env.PROCESSED_TWEET_RETENTION_DAYS || '30',
+    PROCESSED_TWEET_MAX_ENTRIES: process.env.PROCESSED_TWEET_MAX_ENTRIES || '10000',
   },
 
   async init(config: Record<string, string>) {
@@ -96,7 +204,14 @@ const plugin: Plugin = {
   ],
 
   services: [TwitterRSSService, RSSServerService],
-  actions: [updateRSSAction, getRSSStatusAction],
+  actions: [
+    updateRSSAction,
+    getRSSStatusAction,
+    generateDigestAction,
+    addTwitterListAction,
+    removeTwitterListAction,
+    renameTwitterListAction,
+  ],
   providers: [twitterListProvider],
 };
 
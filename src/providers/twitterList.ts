@@ -1,4 +1,8 @@
 import { Provider, ProviderResult, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { feedRoute, sourceFeedRoute } from '../formats';
+import { describeUpdateSchedule, parseUpdateSchedule } from '../schedule';
+import { TwitterRSSService } from '../services/twitterRSSService';
+import { parseTweetSources, parseTwitterLists } from '../sources';
 
 export const twitterListProvider: Provider = {
   name: 'TWITTER_LIST_PROVIDER',
@@ -9,24 +13,55 @@ export const twitterListProvider: Provider = {
     _message: Memory,
     _state: State
   ): Promise<ProviderResult> => {
-    const lists = (
-      runtime.getSetting?.('TWITTER_LISTS') || process.env.TWITTER_LISTS || ''
-    )
-      .split(',')
-      .filter(Boolean);
-    const updateInterval =
-      runtime.getSetting?.('RSS_UPDATE_INTERVAL') || process.env.RSS_UPDATE_INTERVAL || '30';
+    // The running service also knows lists changed from chat.
+    const service = runtime.getService?.(TwitterRSSService.serviceType);
+    const lists =
+      service instanceof TwitterRSSService
+        ? service.getLists()
+        : parseTwitterLists(
+            runtime.getSetting?.('TWITTER_LISTS') || process.env.TWITTER_LISTS
+          );
+    const getSetting = (key: string) => runtime.getSetting?.(key) || process.env[key];
+    const sources =
+      service instanceof TwitterRSSService
+        ? service.getSources()
+        : parseTweetSources(getSetting);
+    const otherSources = sources.filter((source) => source.type !== 'list');
+    const schedule = parseUpdateSchedule(getSetting, sources);
+    const updateInterval = schedule.intervalMinutes;
 
     return {
-      text: `Monitoring ${lists.length} Twitter lists with ${updateInterval}-minute update intervals`,
+      text: `Monitoring ${lists.length} Twitter lists${
+        otherSources.length > 0
+          ? ` and ${otherSources.length} user or search sources`
+          : ''
+      }, updated ${describeUpdateSchedule(schedule)}`,
       values: {
-        monitoredLists: lists,
+        monitoredLists: lists.map((list) => list.listId),
+        monitoredSources: otherSources.map((source) => source.id),
         updateInterval,
+        updateSchedule: schedule.cron,
         totalLists: lists.length,
       },
       data: {
-        lists: lists.map((id) => id.trim()),
+        lists: lists.map((list) => list.listId),
+        feeds: lists.map((list) => ({
+          listId: list.listId,
+          name: list.name,
+          path: feedRoute('rss', list.listId),
+        })),
+        sources: otherSources.map((source) => ({
+          id: source.id,
+          type: source.type,
+          query: source.query,
+          path: sourceFeedRoute('rss', source),
+        })),
         interval: updateInterval,
+        schedule: {
+          cron: schedule.cron,
+          sources: schedule.sources,
+          quietHours: schedule.quietHours,
+        },
         count: lists.length,
       },
     };
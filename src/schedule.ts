@@ -0,0 +1,309 @@
+import cron from 'node-cron';
+import type { TweetSource } from './types';
+
+/** Daily window, in server local time, during which scheduled updates are skipped. */
+export interface QuietHours {
+  /** `HH:MM` the window starts. */
+  from: string;
+  /** `HH:MM` the window ends; before `from` when it spans midnight. */
+  to: string;
+}
+
+/** When each source is refreshed, resolved from the scheduling settings. */
+export interface UpdateSchedule {
+  /** Cron expression for sources without a schedule of their own. */
+  cron: string;
+  /** `RSS_UPDATE_INTERVAL` minutes behind `cron`, or null when `RSS_UPDATE_CRON` sets it. */
+  intervalMinutes: number | null;
+  /** Cron expression per list or source ID. */
+  sources: Record<string, string>;
+  quietHours: QuietHours | null;
+  skipInitialRun: boolean;
+  /** Settings that were ignored because they are invalid. */
+  errors: string[];
+}
+
+/**
+ * Resolves `RSS_UPDATE_CRON` (falling back to `RSS_UPDATE_INTERVAL`),
+ * `RSS_LIST_SCHEDULES`, `RSS_QUIET_HOURS` and `RSS_SKIP_INITIAL_RUN`.
+ */
+export function parseUpdateSchedule(
+  getSetting: (key: string) => string | null | undefined,
+  sources: TweetSource[]
+): UpdateSchedule {
+  const errors: string[] = [];
+
+  const interval = parseInt(getSetting('RSS_UPDATE_INTERVAL') || '30');
+  let intervalMinutes: number | null = interval > 0 ? interval : 30;
+  let globalCron = intervalToCron(intervalMinutes);
+  const updateCron = getSetting('RSS_UPDATE_CRON')?.trim();
+  if (updateCron && cron.validate(updateCron)) {
+    globalCron = updateCron;
+    intervalMinutes = null;
+  } else {
+    if (updateCron) {
+      errors.push(`Ignoring invalid RSS_UPDATE_CRON "${updateCron}"`);
+    }
+    if (!intervalFitsCron(intervalMinutes)) {
+      errors.push(
+        `RSS_UPDATE_INTERVAL ${intervalMinutes} does not divide an hour or a day evenly, so updates run on "${globalCron}" instead of every ${intervalMinutes} minutes; set RSS_UPDATE_CRON to choose the schedule`
+      );
+    }
+  }
+
+  const overrides: Record<string, string> = {};
+  for (const entry of (getSetting('RSS_LIST_SCHEDULES') || '').split(';')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf('=');
+    const id = entry.slice(0, separator).trim();
+    const expression = entry.slice(separator + 1).trim();
+    if (separator === -1 || !id || !cron.validate(expression)) {
+      errors.push(
+        `Ignoring invalid RSS_LIST_SCHEDULES entry "${entry.trim()}"`
+      );
+      continue;
+    }
+    overrides[id] = expression;
+  }
+
+  const quietSetting = getSetting('RSS_QUIET_HOURS')?.trim();
+  const quietHours = parseQuietHours(quietSetting);
+  if (quietSetting && !quietHours) {
+    errors.push(`Ignoring invalid RSS_QUIET_HOURS "${quietSetting}"`);
+  }
+
+  return {
+    cron: globalCron,
+    intervalMinutes,
+    sources: Object.fromEntries(
+      sources.map((source) => [source.id, overrides[source.id] ?? globalCron])
+    ),
+    quietHours,
+    skipInitialRun: getSetting('RSS_SKIP_INITIAL_RUN') === 'true',
+    errors,
+  };
+}
+
+/**
+ * Cron expression for the legacy `RSS_UPDATE_INTERVAL` minutes: every N
+ * minutes within the hour below an hour, every N hours from midnight above.
+ */
+export function intervalToCron(minutes: number): string {
+  if (!(minutes > 0)) minutes = 30;
+  if (minutes < 60) return `*/${Math.round(minutes)} * * * *`;
+  return `0 */${Math.min(24, Math.round(minutes / 60))} * * *`;
+}
+
+/**
+ * Chat-sized description of when updates run, e.g. `every 30 minutes` or
+ * `on the cron schedule "0 * * * *" (2 sources on their own schedule)`.
+ */
+export function describeUpdateSchedule(schedule: UpdateSchedule): string {
+  const { intervalMinutes } = schedule;
+  let text =
+    intervalMinutes !== null && intervalFitsCron(intervalMinutes)
+      ? `every ${intervalMinutes} minutes`
+      : `on the cron schedule "${schedule.cron}"`;
+  const own = Object.values(schedule.sources).filter(
+    (expression) => expression !== schedule.cron
+  ).length;
+  if (own > 0) {
+    text +=
+      own === 1
+        ? ' (1 source on its own schedule)'
+        : ` (${own} sources on their own schedule)`;
+  }
+  if (schedule.quietHours) {
+    text += `, except ${schedule.quietHours.from}-${schedule.quietHours.to}`;
+  }
+  return text;
+}
+
+/**
+ * Whether `intervalToCron` keeps every gap at `minutes`: true for divisors
+ * of an hour and for whole hours that divide a day.
+ */
+export function intervalFitsCron(minutes: number): boolean {
+  if (minutes < 60) return 60 % minutes === 0;
+  return minutes % 60 === 0 && 24 % (minutes / 60) === 0;
+}
+
+/** Named `RSS_DIGEST_SCHEDULE` values and the cron expressions they stand for. */
+const DIGEST_PRESETS: Record<string, string> = {
+  hourly: '0 * * * *',
+  daily: '0 7 * * *',
+};
+
+/**
+ * Cron expression of `RSS_DIGEST_SCHEDULE`: `hourly`, `daily` (07:00) or a
+ * cron expression. Null when unset or invalid.
+ */
+export function parseDigestSchedule(value?: string | null): string | null {
+  const expression = (value || '').trim();
+  if (!expression) return null;
+  const preset = DIGEST_PRESETS[expression.toLowerCase()];
+  if (preset) return preset;
+  return cron.validate(expression) ? expression : null;
+}
+
+/** Parses `HH:MM-HH:MM` (or `22-7`); null when unset or invalid. */
+export function parseQuietHours(value?: string | null): QuietHours | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/.exec(
+    (value || '').trim()
+  );
+  if (!match) return null;
+  const [from, to] = [
+    [match[1], match[2]],
+    [match[3], match[4]],
+  ].map(([hours, minutes]) => {
+    const h = parseInt(hours);
+    const m = parseInt(minutes || '0');
+    return h < 24 && m < 60
+      ? `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`
+      : null;
+  });
+  return from && to && from !== to ? { from, to } : null;
+}
+
+export function isQuietTime(
+  quietHours: QuietHours | null,
+  date: Date = new Date()
+): boolean {
+  if (!quietHours) return false;
+  const now = date.getHours() * 60 + date.getMinutes();
+  const from = minutesOfDay(quietHours.from);
+  const to = minutesOfDay(quietHours.to);
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
+
+/** Next time `expression` fires outside quiet hours, or null if never. */
+export function nextScheduledRun(
+  expression: string,
+  quietHours: QuietHours | null,
+  after: Date = new Date()
+): Date | null {
+  let next = nextCronRun(expression, after);
+  for (let i = 0; next && isQuietTime(quietHours, next) && i < 10000; i++) {
+    next = nextCronRun(expression, next);
+  }
+  return next && !isQuietTime(quietHours, next) ? next : null;
+}
+
+/** Time between the next two runs of a cron expression, or null if never. */
+export function scheduleIntervalMs(
+  expression: string,
+  after: Date = new Date()
+): number | null {
+  const first = nextCronRun(expression, after);
+  const second = first && nextCronRun(expression, first);
+  return first && second ? second.getTime() - first.getTime() : null;
+}
+
+export function quietHoursDurationMs(quietHours: QuietHours | null): number {
+  if (!quietHours) return 0;
+  const minutes =
+    (minutesOfDay(quietHours.to) - minutesOfDay(quietHours.from) + 1440) % 1440;
+  return minutes * 60 * 1000;
+}
+
+/** Next update of a list or source as an ISO timestamp, or null if never. */
+export function nextSourceRun(
+  schedule: UpdateSchedule,
+  sourceId: string,
+  after: Date = new Date()
+): string | null {
+  return (
+    nextScheduledRun(
+      schedule.sources[sourceId] ?? schedule.cron,
+      schedule.quietHours,
+      after
+    )?.toISOString() ?? null
+  );
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+const MONTH_NAMES = 'jan feb mar apr may jun jul aug sep oct nov dec'.split(
+  ' '
+);
+const DAY_NAMES = 'sun mon tue wed thu fri sat'.split(' ');
+
+/**
+ * Next time after `after` that a node-cron expression (five fields, or six
+ * with seconds) fires, in server local time. node-cron itself does not
+ * expose this.
+ */
+export function nextCronRun(expression: string, after: Date): Date | null {
+  if (!cron.validate(expression)) return null;
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length === 5) parts.unshift('0');
+  const [seconds, minutes, hours, days, months, weekdays] = parts.map(
+    (field, index) => parseField(field, index)
+  );
+  if (weekdays.has(7)) weekdays.add(0);
+
+  const date = new Date(after.getTime());
+  date.setMilliseconds(0);
+  date.setSeconds(date.getSeconds() + 1);
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!days.has(date.getDate()) || !weekdays.has(date.getDay())) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else if (!seconds.has(date.getSeconds())) {
+      date.setSeconds(date.getSeconds() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
+
+function parseField(field: string, index: number): Set<number> {
+  const [min, max] = FIELD_RANGES[index];
+  const names = index === 4 ? MONTH_NAMES : index === 5 ? DAY_NAMES : null;
+  const values = new Set<number>();
+
+  for (const item of field.toLowerCase().split(',')) {
+    const [range, step] = item.split('/');
+    const [start, last] =
+      range === '*'
+        ? [min, max]
+        : range.split('-').map((value) => toNumber(value, names, index));
+    const end = last ?? (step ? max : start);
+    const increment = Math.max(1, parseInt(step || '1'));
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function toNumber(
+  value: string,
+  names: string[] | null,
+  index: number
+): number {
+  const named = names?.indexOf(value.slice(0, 3)) ?? -1;
+  if (named !== -1) return index === 4 ? named + 1 : named;
+  return parseInt(value);
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part));
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,311 @@
+import {
+  logger,
+  type Content,
+  type TargetInfo,
+  type UUID,
+} from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import type { PublishedItem } from './feedItemStore';
+
+const chatChannelSchema = z
+  .object({
+    id: z.string().min(1),
+    /** Client that owns the channel, e.g. `discord` or `telegram`. */
+    source: z.string().min(1),
+    channelId: z.string().min(1).optional(),
+    roomId: z.string().uuid().optional(),
+    serverId: z.string().min(1).optional(),
+    threadId: z.string().min(1).optional(),
+    /** List or source IDs to post; every source when omitted. */
+    lists: z.array(z.string().min(1)).optional(),
+    /** `items` posts each tweet, `digest` batches them. */
+    mode: z.enum(['items', 'digest']).default('items'),
+    /** Minutes between digests in `digest` mode. */
+    digestMinutes: z.number().int().min(1).default(60),
+    /** Messages per hour; overrides `CHAT_DELIVERY_MAX_PER_HOUR`. */
+    maxPerHour: z.number().int().min(1).optional(),
+  })
+  .strict()
+  .refine((channel) => channel.channelId || channel.roomId, {
+    message: 'channelId or roomId is required',
+  });
+
+export const chatChannelsSchema = z
+  .object({
+    channels: z.array(chatChannelSchema).default([]),
+  })
+  .strict();
+
+export type ChatChannel = z.infer<typeof chatChannelSchema>;
+
+export type SendMessage = (
+  target: TargetInfo,
+  content: Content
+) => Promise<void>;
+
+export interface ChatDeliveryOptions {
+  /** Default messages per hour and channel. */
+  maxPerHour: number;
+  /** Display name of a list or source, for message headers. */
+  describeSource: (sourceId: string) => string;
+}
+
+interface ChannelState {
+  pending: PublishedItem[];
+  /** When recent messages were sent, for the hourly rate limit. */
+  sentAt: number[];
+  lastDigestAt: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+/** How often pending items are retried once the rate limit allows. */
+const FLUSH_INTERVAL_MS = 60 * 1000;
+/** Items kept per channel while it cannot post; older ones are dropped. */
+const MAX_PENDING_ITEMS = 100;
+/** Longest message sent, below Discord's 2000-character limit. */
+const MAX_MESSAGE_LENGTH = 1900;
+const DIGEST_LINE_LENGTH = 200;
+
+/**
+ * Posts newly published tweets into chat rooms and channels through the
+ * agent's platform clients (`runtime.sendMessageToTarget`). Channels are
+ * configured in a JSON file in the state directory, each with the lists it
+ * follows, whether it gets every tweet or a periodic digest and an hourly
+ * message limit. Tweets over the limit wait and are folded into a digest.
+ */
+export class ChatDelivery {
+  private channels: ChatChannel[] = [];
+  private loadedMtime: number | null = null;
+  private states = new Map<string, ChannelState>();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<number> | null = null;
+
+  constructor(
+    private filePath: string,
+    private send: SendMessage,
+    private options: ChatDeliveryOptions
+  ) {}
+
+  static fromStateDir(
+    stateDir: string,
+    send: SendMessage,
+    options: ChatDeliveryOptions,
+    filename?: string
+  ): ChatDelivery {
+    return new ChatDelivery(
+      path.resolve(stateDir, filename || 'chat_channels.json'),
+      send,
+      options
+    );
+  }
+
+  /**
+   * (Re)loads the channel file when it changed since the last load. A
+   * missing file means no channels; an invalid file keeps the previous ones.
+   */
+  async load(): Promise<void> {
+    let mtime: number;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch {
+      this.channels = [];
+      this.loadedMtime = null;
+      return;
+    }
+    if (mtime === this.loadedMtime) return;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.channels = chatChannelsSchema.parse(data).channels;
+      this.loadedMtime = mtime;
+      logger.info(
+        `Loaded ${this.channels.length} chat channels from ${this.filePath}`
+      );
+    } catch (error: any) {
+      const message =
+        error instanceof z.ZodError
+          ? error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')
+          : error.message;
+      logger.warn(
+        `Ignoring invalid chat channels in ${this.filePath}: ${message}`
+      );
+    }
+  }
+
+  /** Starts retrying pending items in the background. */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Queues items for the channels following their sources, then posts. */
+  async enqueue(items: PublishedItem[]): Promise<number> {
+    await this.load();
+    for (const channel of this.channels) {
+      const { lists } = channel;
+      const matching = lists
+        ? items.filter((item) =>
+            item.sourceIds.some((id) => lists.includes(id))
+          )
+        : items;
+      if (matching.length === 0) continue;
+
+      const state = this.getState(channel.id);
+      state.pending.push(...matching);
+      const dropped = state.pending.length - MAX_PENDING_ITEMS;
+      if (dropped > 0) {
+        state.pending.splice(0, dropped);
+        logger.warn(
+          `Dropped ${dropped} tweets queued for chat channel ${channel.id}`
+        );
+      }
+    }
+    return this.flush();
+  }
+
+  /**
+   * Posts pending items wherever the rate limit and digest interval allow.
+   * Resolves with the number of messages sent.
+   */
+  async flush(now = Date.now()): Promise<number> {
+    // A flush already in progress is followed by this one, never overlapped.
+    const previous = this.flushing ?? Promise.resolve(0);
+    const current = previous.then(() => this.flushChannels(now));
+    this.flushing = current;
+    try {
+      return await current;
+    } finally {
+      if (this.flushing === current) this.flushing = null;
+    }
+  }
+
+  private async flushChannels(now: number): Promise<number> {
+    await this.load();
+    let sent = 0;
+    for (const channel of this.channels) {
+      sent += await this.flushChannel(channel, now);
+    }
+    return sent;
+  }
+
+  private async flushChannel(
+    channel: ChatChannel,
+    now: number
+  ): Promise<number> {
+    const state = this.getState(channel.id);
+    if (state.pending.length === 0) return 0;
+
+    state.sentAt = state.sentAt.filter((time) => now - time < HOUR_MS);
+    const allowance =
+      (channel.maxPerHour ?? this.options.maxPerHour) - state.sentAt.length;
+    if (allowance <= 0) return 0;
+
+    let messages: PublishedItem[][];
+    if (channel.mode === 'digest') {
+      if (now - state.lastDigestAt < channel.digestMinutes * 60 * 1000) {
+        return 0;
+      }
+      messages = [state.pending];
+    } else if (state.pending.length <= allowance) {
+      messages = state.pending.map((item) => [item]);
+    } else {
+      // Over the limit: post what fits one by one and the rest as a digest.
+      messages = [
+        ...state.pending.slice(0, allowance - 1).map((item) => [item]),
+        state.pending.slice(allowance - 1),
+      ];
+    }
+
+    let sent = 0;
+    for (const items of messages) {
+      try {
+        await this.send(targetOf(channel), {
+          text:
+            items.length === 1 && channel.mode === 'items'
+              ? this.renderItem(items[0])
+              : this.renderDigest(items),
+          source: 'twitter-rss',
+        });
+      } catch (error) {
+        logger.warn(`Failed to post to chat channel ${channel.id}:`, error);
+        break;
+      }
+      state.pending = state.pending.filter((item) => !items.includes(item));
+      state.sentAt.push(now);
+      sent++;
+    }
+    if (channel.mode === 'digest' && sent > 0) {
+      state.lastDigestAt = now;
+    }
+    return sent;
+  }
+
+  private renderItem(item: PublishedItem): string {
+    const { tweet } = item;
+    return truncate(
+      `**@${tweet.author.username}** in ${this.describeSources(item)}\n${tweet.text}\n${tweet.url}`,
+      MAX_MESSAGE_LENGTH
+    );
+  }
+
+  private renderDigest(items: PublishedItem[]): string {
+    const sources = [
+      ...new Set(items.map((item) => this.describeSources(item))),
+    ].join(', ');
+    let text = `**${items.length} new ${
+      items.length === 1 ? 'tweet' : 'tweets'
+    }** in ${sources}`;
+    for (const [index, { tweet }] of items.entries()) {
+      const line = `\n• @${tweet.author.username}: ${truncate(
+        tweet.text.replace(/\s+/g, ' '),
+        DIGEST_LINE_LENGTH
+      )} ${tweet.url}`;
+      const more = `\n…and ${items.length - index} more`;
+      if (text.length + line.length + more.length > MAX_MESSAGE_LENGTH) {
+        text += more;
+        break;
+      }
+      text += line;
+    }
+    return text;
+  }
+
+  private describeSources(item: PublishedItem): string {
+    return item.sourceIds.map(this.options.describeSource).join(', ');
+  }
+
+  private getState(channelId: string): ChannelState {
+    let state = this.states.get(channelId);
+    if (!state) {
+      state = { pending: [], sentAt: [], lastDigestAt: 0 };
+      this.states.set(channelId, state);
+    }
+    return state;
+  }
+}
+
+function targetOf(channel: ChatChannel): TargetInfo {
+  return {
+    source: channel.source,
+    channelId: channel.channelId,
+    roomId: channel.roomId as UUID | undefined,
+    serverId: channel.serverId,
+    threadId: channel.threadId,
+  };
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
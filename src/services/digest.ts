@@ -0,0 +1,198 @@
+import { logger } from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+import { escapeHtml } from '../formats/html';
+import type { TweetData, TweetSource } from '../types';
+import type { PublishedItem } from './feedItemStore';
+
+/** A model-written briefing of the tweets published since the last one. */
+export interface Digest {
+  id: string;
+  createdAt: string;
+  /** Publishing sequence of the newest item covered. */
+  sequence: number;
+  tweetCount: number;
+  /** Tweets covered per list or source ID. */
+  sources: Record<string, number>;
+  /** The briefing, in Markdown, as the model wrote it. */
+  summary: string;
+}
+
+/** Tweets of one list or source, as handed to the model. */
+export interface DigestGroup {
+  sourceId: string;
+  name: string;
+  tweets: TweetData[];
+}
+
+/** Digests kept in the store and rendered in the digest feed. */
+const MAX_DIGESTS = 30;
+/** Longest tweet text quoted in the prompt. */
+const PROMPT_TWEET_LENGTH = 500;
+
+/**
+ * Past digests, kept as JSON in the state directory. The newest one marks
+ * where the next digest starts.
+ */
+export class DigestStore {
+  private digests: Digest[] = [];
+  private loaded = false;
+
+  constructor(private filePath: string) {}
+
+  static fromStateDir(stateDir: string): DigestStore {
+    return new DigestStore(path.join(stateDir, 'digests.json'));
+  }
+
+  async load(): Promise<void> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.digests = Array.isArray(stored) ? stored : [];
+    } catch {
+      this.digests = [];
+    }
+    this.loaded = true;
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+    }
+  }
+
+  /** Stored digests, newest first. */
+  async list(): Promise<Digest[]> {
+    await this.ensureLoaded();
+    return [...this.digests];
+  }
+
+  async latest(): Promise<Digest | undefined> {
+    await this.ensureLoaded();
+    return this.digests[0];
+  }
+
+  async add(digest: Digest): Promise<void> {
+    await this.ensureLoaded();
+    this.digests = [digest, ...this.digests].slice(0, MAX_DIGESTS);
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(this.digests, null, 2));
+    } catch (error) {
+      logger.error('Failed to save digests:', error);
+    }
+  }
+}
+
+/**
+ * Groups items by list or source, in the order of `sources`, keeping the
+ * newest `maxTweets` overall. An item seen in several sources is listed
+ * under the first of them.
+ */
+export function groupForDigest(
+  items: PublishedItem[],
+  sources: TweetSource[],
+  maxTweets: number
+): DigestGroup[] {
+  const recent = [...items]
+    .sort((a, b) => b.tweet.createdAt.getTime() - a.tweet.createdAt.getTime())
+    .slice(0, maxTweets);
+  const names = new Map(sources.map((source) => [source.id, source.name]));
+  const order = sources.map((source) => source.id);
+  const rank = (id: string) =>
+    order.includes(id) ? order.indexOf(id) : order.length;
+
+  const groups = new Map<string, DigestGroup>();
+  for (const { tweet, sourceIds } of recent) {
+    const sourceId = [...sourceIds].sort((a, b) => rank(a) - rank(b))[0];
+    if (!sourceId) continue;
+    let group = groups.get(sourceId);
+    if (!group) {
+      group = { sourceId, name: names.get(sourceId) ?? sourceId, tweets: [] };
+      groups.set(sourceId, group);
+    }
+    group.tweets.push(tweet);
+  }
+  return [...groups.values()].sort(
+    (a, b) => rank(a.sourceId) - rank(b.sourceId)
+  );
+}
+
+/** The prompt asking the model for a briefing of `groups`. */
+export function buildDigestPrompt(groups: DigestGroup[]): string {
+  const sections = groups.map((group) => {
+    const lines = group.tweets.map((tweet) => {
+      const text = tweet.text.replace(/\s+/g, ' ').trim();
+      const quoted =
+        text.length > PROMPT_TWEET_LENGTH
+          ? `${text.slice(0, PROMPT_TWEET_LENGTH)}…`
+          : text;
+      return `- @${tweet.author.username} (${tweet.createdAt.toISOString()}): ${quoted} <${tweet.url}>`;
+    });
+    return `### ${group.name}\n${lines.join('\n')}`;
+  });
+
+  return [
+    'Write a concise briefing of the tweets below for someone who has not read them.',
+    'Use one Markdown heading (##) per list, in the order given, and summarize the main topics as bullet points instead of repeating every tweet.',
+    'Link each point to the tweets it is based on with Markdown links, e.g. [@user](https://twitter.com/user/status/1), using only the URLs given below.',
+    'Reply with the briefing only, without an introduction or closing remarks.',
+    '',
+    ...sections,
+  ].join('\n');
+}
+
+/**
+ * Renders the Markdown a model typically returns (headings, bullet lists,
+ * paragraphs, bold text and links) as HTML. Everything else is escaped.
+ */
+export function renderDigestHtml(markdown: string): string {
+  const blocks: string[] = [];
+  let listItems: string[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (listItems.length > 0) {
+      blocks.push(
+        `<ul>${listItems.map((item) => `<li>${item}</li>`).join('')}</ul>`
+      );
+      listItems = [];
+    }
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.join(' ')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  for (const line of markdown.split('\n').map((line) => line.trim())) {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const bullet = /^[-*]\s+(.*)$/.exec(line);
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet) {
+      if (paragraph.length > 0) flush();
+      listItems.push(renderInline(bullet[1]));
+    } else {
+      if (listItems.length > 0) flush();
+      paragraph.push(renderInline(line));
+    }
+  }
+  flush();
+  return blocks.join('\n');
+}
+
+function renderInline(text: string): string {
+  return escapeHtml(text)
+    .replace(
+      /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g,
+      (_match, label, url) => `<a href="${url}">${label}</a>`
+    )
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
+}
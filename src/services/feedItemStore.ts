@@ -0,0 +1,202 @@
+import { logger } from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+import type { TweetData } from '../types';
+
+interface StoredItem {
+  tweet: TweetData;
+  /** Sources the tweet was seen in, used to render per-source feeds. */
+  sourceIds: Set<string>;
+  /** Position in publishing order, increasing across runs. */
+  sequence: number;
+}
+
+/** A stored item in publishing order, e.g. for the live stream. */
+export interface PublishedItem {
+  sequence: number;
+  tweet: TweetData;
+  sourceIds: string[];
+}
+
+/**
+ * Persistent store of published feed items, kept as JSON in the state
+ * directory. Each run merges its new tweets in and the feed is
+ * rendered from the most recent stored items, so it acts as a rolling
+ * window instead of a per-run diff.
+ */
+export class FeedItemStore {
+  private items: Map<string, StoredItem> = new Map();
+  private loaded = false;
+  private lastSequence = 0;
+
+  constructor(private filePath: string) {}
+
+  static fromStateDir(stateDir: string): FeedItemStore {
+    return new FeedItemStore(path.join(stateDir, 'feed_items.json'));
+  }
+
+  async load(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf-8');
+      const stored = JSON.parse(data);
+      const records: any[] = Array.isArray(stored) ? stored : [];
+      this.lastSequence = Math.max(
+        0,
+        ...records.map((record) => record.sequence ?? 0)
+      );
+      // Items saved before sequences existed are numbered oldest first; the
+      // file lists the newest first.
+      const sequences = records.map(() => 0);
+      for (let i = records.length - 1; i >= 0; i--) {
+        sequences[i] = records[i].sequence ?? ++this.lastSequence;
+      }
+      this.items = new Map(
+        records.map((record, index) => {
+          // Items written before user and search sources existed record
+          // their lists as `listIds`.
+          const { sourceIds, listIds, sequence: _sequence, ...tweet } = record;
+          const ids = sourceIds ?? listIds;
+          return [
+            tweet.id,
+            {
+              tweet: reviveTweet(tweet),
+              sourceIds: new Set(Array.isArray(ids) ? ids : []),
+              sequence: sequences[index],
+            },
+          ];
+        })
+      );
+    } catch {
+      this.items = new Map();
+      this.lastSequence = 0;
+    }
+    this.loaded = true;
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+    }
+  }
+
+  /**
+   * Adds tweets to the store, replacing any stored copy of the same tweet,
+   * and records that they belong to `sourceId` when given.
+   * Returns the number of tweets that were not stored before.
+   */
+  merge(tweets: TweetData[], sourceId?: string): number {
+    let added = 0;
+    for (const tweet of tweets) {
+      const existing = this.items.get(tweet.id);
+      if (!existing) added++;
+      const sourceIds = existing?.sourceIds ?? new Set<string>();
+      if (sourceId) sourceIds.add(sourceId);
+      this.items.set(tweet.id, {
+        tweet,
+        sourceIds,
+        sequence: existing?.sequence ?? ++this.lastSequence,
+      });
+    }
+    return added;
+  }
+
+  /**
+   * Records source membership for tweets that are already stored, e.g. when
+   * a tweet published from one list also shows up in another.
+   */
+  addToSource(sourceId: string, tweetIds: string[]): void {
+    for (const id of tweetIds) {
+      this.items.get(id)?.sourceIds.add(sourceId);
+    }
+  }
+
+  /** Sequence of the last item published so far, 0 when none was. */
+  get sequence(): number {
+    return this.lastSequence;
+  }
+
+  /** Stored items published after `sequence`, oldest first. */
+  getPublishedSince(sequence: number): PublishedItem[] {
+    return Array.from(this.items.values())
+      .filter((item) => item.sequence > sequence)
+      .sort((a, b) => a.sequence - b.sequence)
+      .map((item) => ({
+        sequence: item.sequence,
+        tweet: item.tweet,
+        sourceIds: Array.from(item.sourceIds),
+      }));
+  }
+
+  has(tweetId: string): boolean {
+    return this.items.has(tweetId);
+  }
+
+  /** Most recent stored items, newest first, optionally for one source. */
+  getRecent(limit: number, sourceId?: string): TweetData[] {
+    return Array.from(this.items.values())
+      .filter((item) => !sourceId || item.sourceIds.has(sourceId))
+      .map((item) => item.tweet)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Drops every item that is outside the `limit` most recent items of the
+   * combined feed and of each source feed.
+   */
+  prune(limit: number): void {
+    const keep = new Set(this.getRecent(limit).map((tweet) => tweet.id));
+    for (const sourceId of this.sourceIds()) {
+      this.getRecent(limit, sourceId).forEach((tweet) => keep.add(tweet.id));
+    }
+    for (const id of Array.from(this.items.keys())) {
+      if (!keep.has(id)) this.items.delete(id);
+    }
+  }
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  async save(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const records = Array.from(this.items.values())
+        .sort(
+          (a, b) => b.tweet.createdAt.getTime() - a.tweet.createdAt.getTime()
+        )
+        .map((item) => ({
+          ...item.tweet,
+          sourceIds: Array.from(item.sourceIds),
+          sequence: item.sequence,
+        }));
+      await fs.writeFile(this.filePath, JSON.stringify(records, null, 2));
+    } catch (error) {
+      logger.error('Failed to save feed items:', error);
+    }
+  }
+
+  private sourceIds(): Set<string> {
+    const ids = new Set<string>();
+    for (const item of this.items.values()) {
+      item.sourceIds.forEach((id) => ids.add(id));
+    }
+    return ids;
+  }
+}
+
+function reviveTweet(item: any): TweetData {
+  return {
+    ...item,
+    createdAt: new Date(item.createdAt),
+    retweetedTweet: item.retweetedTweet?.id
+      ? reviveTweet(item.retweetedTweet)
+      : undefined,
+    quotedTweet: item.quotedTweet?.id
+      ? reviveTweet(item.quotedTweet)
+      : undefined,
+    thread: Array.isArray(item.thread)
+      ? item.thread.map(reviveTweet)
+      : undefined,
+  };
+}
@@ -0,0 +1,99 @@
+import { logger } from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import type { TwitterListConfig } from '../types';
+
+const managedListSchema = z
+  .object({
+    listId: z.string().regex(/^\d+$/, 'List IDs are numeric'),
+    name: z.string().min(1),
+    /** Entity that last added or renamed the list. */
+    updatedBy: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+  .strict();
+
+export const listRegistrySchema = z
+  .object({
+    lists: z.array(managedListSchema).default([]),
+  })
+  .strict();
+
+export type ManagedList = z.infer<typeof managedListSchema>;
+
+/**
+ * Monitored lists as changed at runtime, kept as JSON in the state
+ * directory. Until the first change the registry does not exist and
+ * `TWITTER_LISTS` applies; from then on the registry holds every list and
+ * `TWITTER_LISTS` is ignored.
+ */
+export class ListRegistry {
+  private entries: ManagedList[] | null = null;
+  private loadedMtime: number | null = null;
+
+  constructor(private filePath: string) {}
+
+  static fromStateDir(stateDir: string, filename?: string): ListRegistry {
+    return new ListRegistry(
+      path.resolve(stateDir, filename || 'monitored_lists.json')
+    );
+  }
+
+  /** The registered lists, or null when `TWITTER_LISTS` applies. */
+  get lists(): TwitterListConfig[] | null {
+    return this.entries?.map(({ listId, name }) => ({ listId, name })) ?? null;
+  }
+
+  /**
+   * (Re)loads the registry when it changed since the last load, e.g. when
+   * edited by hand. An invalid file keeps the previous lists. Resolves
+   * with whether the lists may have changed.
+   */
+  async load(): Promise<boolean> {
+    let mtime: number;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch {
+      const changed = this.entries !== null;
+      this.entries = null;
+      this.loadedMtime = null;
+      return changed;
+    }
+    if (mtime === this.loadedMtime) return false;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.entries = listRegistrySchema.parse(data).lists;
+      this.loadedMtime = mtime;
+      logger.info(
+        `Loaded ${this.entries.length} Twitter lists from ${this.filePath}`
+      );
+      return true;
+    } catch (error: any) {
+      const message =
+        error instanceof z.ZodError
+          ? error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')
+          : error.message;
+      logger.warn(
+        `Ignoring invalid list registry ${this.filePath}: ${message}`
+      );
+      return false;
+    }
+  }
+
+  /** Replaces the registered lists, keeping who changed which list. */
+  async save(lists: ManagedList[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify({ lists }, null, 2));
+    this.entries = lists;
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+
+  /** The stored entry of a list, with who last changed it. */
+  get(listId: string): ManagedList | undefined {
+    return this.entries?.find((entry) => entry.listId === listId);
+  }
+}
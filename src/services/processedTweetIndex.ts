@@ -0,0 +1,164 @@
+import { logger } from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+
+const LOG_FILE = 'processed_tweets.jsonl';
+const LEGACY_FILE = 'processed_tweets.json';
+
+export interface ProcessedTweetRetention {
+  /** Entries whose tweet is older than this are forgotten. */
+  maxAgeMs: number;
+  /** At most this many of the newest entries are kept. */
+  maxEntries: number;
+}
+
+/**
+ * Bounded record of tweet IDs that have already been published, keyed by
+ * ID with the tweet's timestamp alongside.
+ *
+ * Entries are appended to a JSON Lines log on each save; the log is only
+ * rewritten (compacted) once expired or superseded lines outnumber the live
+ * entries, so a save costs roughly the size of the new IDs rather than the
+ * whole history.
+ */
+export class ProcessedTweetIndex {
+  private entries: Map<string, number> = new Map();
+  private pending: Array<[string, number]> = [];
+  private fileLines = 0;
+
+  constructor(
+    private dir: string,
+    private retention: ProcessedTweetRetention
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Whether the tweet was already processed. Tweets older than the
+   * retention window count as processed too, otherwise expiring an entry
+   * would let the same tweet be published again.
+   */
+  has(id: string, timestamp?: number): boolean {
+    if (this.entries.has(id)) return true;
+    return timestamp !== undefined && timestamp < this.cutoff();
+  }
+
+  add(id: string, timestamp: number): void {
+    if (this.entries.get(id) === timestamp) return;
+    this.entries.set(id, timestamp);
+    this.pending.push([id, timestamp]);
+  }
+
+  /** Drops entries outside the retention window. Returns how many were dropped. */
+  prune(): number {
+    const before = this.entries.size;
+    const cutoff = this.cutoff();
+    for (const [id, ts] of this.entries) {
+      if (ts < cutoff) this.entries.delete(id);
+    }
+    if (this.entries.size > this.retention.maxEntries) {
+      const newest = Array.from(this.entries)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, this.retention.maxEntries);
+      this.entries = new Map(newest);
+    }
+    if (this.entries.size < before) {
+      this.pending = this.pending.filter(([id]) => this.entries.has(id));
+    }
+    return before - this.entries.size;
+  }
+
+  async load(): Promise<void> {
+    this.entries = new Map();
+    this.pending = [];
+    this.fileLines = 0;
+
+    try {
+      const data = await fs.readFile(path.join(this.dir, LOG_FILE), 'utf-8');
+      for (const line of data.split('\n')) {
+        if (!line.trim()) continue;
+        this.fileLines++;
+        try {
+          const { id, ts } = JSON.parse(line);
+          if (typeof id === 'string' && typeof ts === 'number') {
+            this.entries.set(id, ts);
+          }
+        } catch {
+          // A torn final line from an interrupted append is skipped.
+        }
+      }
+    } catch {
+      await this.migrateLegacyFile();
+    }
+
+    this.prune();
+  }
+
+  async save(): Promise<void> {
+    try {
+      this.prune();
+      await fs.mkdir(this.dir, { recursive: true });
+      if (this.fileLines + this.pending.length > this.entries.size * 2) {
+        await this.compact();
+        return;
+      }
+      if (this.pending.length === 0) return;
+      const lines = this.pending.map(([id, ts]) => toLine(id, ts)).join('');
+      await fs.appendFile(path.join(this.dir, LOG_FILE), lines);
+      this.fileLines += this.pending.length;
+      this.pending = [];
+    } catch (error) {
+      logger.error('Failed to save processed tweet IDs:', error);
+    }
+  }
+
+  /** Rewrites the log with only the live entries. */
+  async compact(): Promise<void> {
+    const file = path.join(this.dir, LOG_FILE);
+    const tmp = `${file}.tmp`;
+    const lines = Array.from(this.entries)
+      .map(([id, ts]) => toLine(id, ts))
+      .join('');
+    await fs.writeFile(tmp, lines);
+    await fs.rename(tmp, file);
+    this.fileLines = this.entries.size;
+    this.pending = [];
+  }
+
+  /**
+   * Imports the pre-retention `processed_tweets.json` array. Those IDs carry
+   * no timestamp, so they are stamped with the migration time and age out
+   * one retention window later.
+   */
+  private async migrateLegacyFile(): Promise<void> {
+    const legacyFile = path.join(this.dir, LEGACY_FILE);
+    let ids: unknown;
+    try {
+      ids = JSON.parse(await fs.readFile(legacyFile, 'utf-8'));
+    } catch {
+      return;
+    }
+    if (!Array.isArray(ids)) return;
+
+    const now = Date.now();
+    for (const id of ids) {
+      if (typeof id === 'string') this.entries.set(id, now);
+    }
+    this.prune();
+    await this.compact();
+    await fs.unlink(legacyFile);
+    logger.info(
+      `Migrated ${this.entries.size} processed tweet IDs from ${LEGACY_FILE}`
+    );
+  }
+
+  private cutoff(): number {
+    return Date.now() - this.retention.maxAgeMs;
+  }
+}
+
+function toLine(id: string, ts: number): string {
+  return JSON.stringify({ id, ts }) + '\n';
+}
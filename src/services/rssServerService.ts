@@ -1,9 +1,77 @@
 import { Service, IAgentRuntime, logger } from '@elizaos/core';
 import express from 'express';
 import cors from 'cors';
+import { createHash, timingSafeEqual } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
 import { TwitterRSSService } from './twitterRSSService';
+import {
+  FEED_FORMAT_NAMES,
+  FEED_FORMATS,
+  FeedFormat,
+  NEGOTIABLE_MEDIA_TYPES,
+  digestFeedFilename,
+  feedFilename,
+  feedRoute,
+  sourceFeedFilename,
+  sourceFeedRoute,
+} from '../formats';
+import {
+  UpdateSchedule,
+  nextScheduledRun,
+  nextSourceRun,
+  parseDigestSchedule,
+  parseUpdateSchedule,
+  scheduleIntervalMs,
+} from '../schedule';
+import {
+  HTTP_DURATION_BUCKETS,
+  METRICS_CONTENT_TYPE,
+  MetricsRegistry,
+} from '../metrics';
+import { parseTweetSources } from '../sources';
+import {
+  ALL_FEEDS_SCOPE,
+  COMBINED_FEED_SCOPE,
+  SubscriberToken,
+  SubscriberTokenStore,
+  tokenAllows,
+} from './subscriberTokens';
+import { DEFAULT_STATE_DIR } from './stateDir';
+import { parseWebSubRequest } from './webSub';
+import type { PublishedItem } from './feedItemStore';
+import type { ReadinessReport, TweetSource } from '../types';
+
+const compressors = {
+  br: promisify(zlib.brotliCompress),
+  gzip: promisify(zlib.gzip),
+};
+
+type ContentEncoding = keyof typeof compressors;
+
+/** Max-age for feeds when the schedule gives no interval. */
+const DEFAULT_FEED_MAX_AGE_SECONDS = 1800;
+
+/** Probe endpoints, served without the API token. */
+const HEALTH_ROUTES = ['/health', '/health/live', '/health/ready'];
+
+/** Routes that need the admin credential rather than the API token. */
+const ADMIN_ROUTE = /^\/(update|tokens)(\/|$)/;
+
+/**
+ * Feed routes, the live stream and the WebSub hub, the only routes a
+ * subscriber token opens.
+ */
+const FEED_ROUTE =
+  /^\/((rss|atom|feed\.json|feed)(\/(lists|sources)\/[^/]+|\/digest)?\/?|stream|websub)$/;
+
+/** Keeps idle streams open through proxies that drop silent connections. */
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+
+/** `/t/<token>/<feed route>`, for feed readers that drop query strings. */
+const TOKEN_PATH = /^\/t\/([^/?]+)(\/.*)$/;
 
 export class RSSServerService extends Service {
   static serviceType = 'rss-server';
@@ -11,6 +79,20 @@ export class RSSServerService extends Service {
   private server: any;
   private port: number;
   private apiToken?: string;
+  private adminToken?: string;
+  private subscriberTokens: SubscriberTokenStore;
+  private metrics = new MetricsRegistry();
+  /** Last compressed body per feed file and encoding, keyed by ETag. */
+  private compressedFeeds = new Map<string, { etag: string; body: Buffer }>();
+  private httpRequests = this.metrics.counter(
+    'twitter_rss_http_requests_total',
+    'HTTP requests by method, route and status'
+  );
+  private httpDuration = this.metrics.histogram(
+    'twitter_rss_http_request_duration_seconds',
+    'HTTP request latency by method and route',
+    HTTP_DURATION_BUCKETS
+  );
 
   capabilityDescription =
     'HTTP server for serving RSS feeds and API endpoints.';
@@ -23,47 +105,147 @@ export class RSSServerService extends Service {
     );
     this.apiToken =
       this.runtime.getSetting?.('RSS_API_TOKEN') || process.env.RSS_API_TOKEN;
+    this.adminToken =
+      this.runtime.getSetting?.('RSS_ADMIN_TOKEN') ||
+      process.env.RSS_ADMIN_TOKEN ||
+      this.apiToken;
+    this.subscriberTokens = SubscriberTokenStore.fromStateDir(
+      this.getStateDir()
+    );
     this.setupMiddleware();
     this.setupRoutes();
   }
 
   private setupMiddleware(): void {
+    this.app.use((req, res, next) => {
+      const match = TOKEN_PATH.exec(req.url);
+      if (match) {
+        res.locals.pathToken = decodeURIComponent(match[1]);
+        req.url = match[2];
+      }
+      next();
+    });
+    this.app.use((req, res, next) => {
+      const start = process.hrtime.bigint();
+      res.on('finish', () => {
+        // Label by route pattern, not path, to keep the series bounded.
+        const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+        this.httpRequests.inc({
+          method: req.method,
+          route,
+          status: String(res.statusCode),
+        });
+        this.httpDuration.observe(
+          { method: req.method, route },
+          Number(process.hrtime.bigint() - start) / 1e9
+        );
+      });
+      next();
+    });
     this.app.use(cors());
     this.app.use(express.json());
-    const outDir =
-      this.runtime.getSetting?.('RSS_OUTPUT_DIR') || process.env.RSS_OUTPUT_DIR || './rss-feeds';
-    this.app.use(express.static(outDir));
-    this.app.use((req, res, next) => {
-      if (!this.apiToken || req.path === '/health') return next();
+    // WebSub subscription requests are form-encoded.
+    this.app.use(express.urlencoded({ extended: false }));
+    this.app.use(async (req, res, next) => {
+      if (HEALTH_ROUTES.includes(req.path)) return next();
       const auth = req.headers.authorization || '';
-      const token = auth.replace('Bearer ', '');
-      if (token === this.apiToken) return next();
+      const bearer = auth.replace('Bearer ', '');
+
+      if (ADMIN_ROUTE.test(req.path)) {
+        if (!this.adminToken || tokensMatch(bearer, this.adminToken)) {
+          return next();
+        }
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      if (!this.apiToken || tokensMatch(bearer, this.apiToken)) return next();
+
+      const token =
+        res.locals.pathToken ??
+        (typeof req.query.token === 'string' ? req.query.token : undefined);
+      if (token && FEED_ROUTE.test(req.path)) {
+        const subscriber = await this.subscriberTokens.authenticate(token);
+        if (subscriber) {
+          // The feed's scope is checked once its source is resolved.
+          res.locals.subscriber = subscriber;
+          return next();
+        }
+      }
       res.status(401).json({ error: 'Unauthorized' });
     });
   }
 
+  /**
+   * Whether the request may see more than public health routes: always when
+   * no API token is set, otherwise with the API or admin token as bearer, or
+   * a subscriber token as bearer or `?token=`.
+   */
+  private async carriesValidToken(req: express.Request): Promise<boolean> {
+    if (!this.apiToken) return true;
+    const bearer = (req.headers.authorization || '').replace('Bearer ', '');
+    if (tokensMatch(bearer, this.apiToken)) return true;
+    if (this.adminToken && tokensMatch(bearer, this.adminToken)) return true;
+    const token =
+      typeof req.query.token === 'string' ? req.query.token : bearer;
+    return Boolean(token && (await this.subscriberTokens.authenticate(token)));
+  }
+
   private setupRoutes(): void {
-    this.app.get('/rss', async (_req, res) => {
-      try {
-        const rssPath = path.join(
-          this.runtime.getSetting?.('RSS_OUTPUT_DIR') || process.env.RSS_OUTPUT_DIR || './rss-feeds',
-          'twitter_lists.xml'
-        );
-        const rssContent = await fs.readFile(rssPath, 'utf-8');
-        res.set({
-          'Content-Type': 'application/rss+xml; charset=utf-8',
-          'Cache-Control': 'public, max-age=1800',
-        });
-        res.send(rssContent);
-      } catch (error) {
-        res.status(404).json({
-          error: 'RSS feed not found',
-          message: 'Feed may not be generated yet. Try triggering an update first.',
-        });
-      }
+    for (const format of FEED_FORMAT_NAMES) {
+      this.app.get(feedRoute(format), async (req, res) => {
+        await this.sendFeed(req, res, format);
+      });
+
+      this.app.get(`${feedRoute(format)}/lists/:listId`, async (req, res) => {
+        await this.sendListFeed(req, res, format, req.params.listId);
+      });
+
+      this.app.get(
+        `${feedRoute(format)}/sources/:sourceId`,
+        async (req, res) => {
+          await this.sendSourceFeed(req, res, format, req.params.sourceId);
+        }
+      );
+
+      this.app.get(`${feedRoute(format)}/digest`, async (req, res) => {
+        await this.sendDigestFeed(req, res, format);
+      });
+    }
+
+    // `/feed` serves whichever format the client prefers via `Accept`.
+    this.app.get('/feed', async (req, res) => {
+      res.vary('Accept');
+      await this.sendFeed(req, res, this.negotiateFormat(req));
+    });
+
+    this.app.get('/feed/digest', async (req, res) => {
+      res.vary('Accept');
+      await this.sendDigestFeed(req, res, this.negotiateFormat(req));
+    });
+
+    this.app.get('/feed/lists/:listId', async (req, res) => {
+      res.vary('Accept');
+      await this.sendListFeed(
+        req,
+        res,
+        this.negotiateFormat(req),
+        req.params.listId
+      );
     });
 
-    this.app.post('/update', async (_req, res) => {
+    this.app.get('/feed/sources/:sourceId', async (req, res) => {
+      res.vary('Accept');
+      await this.sendSourceFeed(
+        req,
+        res,
+        this.negotiateFormat(req),
+        req.params.sourceId
+      );
+    });
+
+    // Starts or joins an update run and answers 202 with its ID, to be polled
+    // at `/runs/:runId`; `?wait=true` answers with the result instead.
+    this.app.post('/update', async (req, res) => {
       try {
         const twitterService = this.runtime.getService(
           TwitterRSSService.serviceType
@@ -73,13 +255,30 @@ export class RSSServerService extends Service {
           throw new Error('Twitter RSS service not available');
         }
 
-        const result = await twitterService.processAllLists();
+        const { run, joined, done } = twitterService.requestUpdate('http');
+
+        if (req.query.wait !== 'true') {
+          res.status(202).json({
+            success: true,
+            runId: run.id,
+            status: run.status,
+            joined,
+            statusUrl: `/runs/${run.id}`,
+          });
+          return;
+        }
+
+        const result = await done;
 
         res.json({
           success: true,
           message: 'RSS feed updated successfully',
+          runId: run.id,
           totalTweets: result.totalTweets,
+          feedItems: result.feedItems,
+          filterReports: result.filterReports,
           rssPath: result.rssPath,
+          sources: result.sources,
           timestamp: new Date().toISOString(),
         });
       } catch (error: any) {
@@ -90,11 +289,210 @@ export class RSSServerService extends Service {
       }
     });
 
+    // Live stream of newly published items as Server-Sent Events. Each event
+    // ID is the item's sequence, so a reconnecting client resumes after
+    // `Last-Event-ID` from the stored items.
+    this.app.get('/stream', async (req, res) => {
+      const twitterService = this.getTwitterService();
+      if (!twitterService) {
+        res.status(503).json({ error: 'Twitter RSS service not available' });
+        return;
+      }
+
+      const sourceIds = String(req.query.lists ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+      const unknown = sourceIds.filter(
+        (id) => !this.getSources().some((source) => source.id === id)
+      );
+      if (unknown.length > 0) {
+        res.status(404).json({
+          error: 'Source not found',
+          message: `Not monitored: ${unknown.join(', ')}`,
+        });
+        return;
+      }
+      const subscriber: SubscriberToken | undefined = res.locals.subscriber;
+      if (
+        subscriber &&
+        sourceIds.some((sourceId) => !tokenAllows(subscriber, sourceId))
+      ) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'The token is not scoped to these feeds.',
+        });
+        return;
+      }
+
+      const wanted = (item: PublishedItem) =>
+        (sourceIds.length === 0 ||
+          item.sourceIds.some((id) => sourceIds.includes(id))) &&
+        (!subscriber ||
+          tokenAllows(subscriber, COMBINED_FEED_SCOPE) ||
+          item.sourceIds.some((id) => tokenAllows(subscriber, id)));
+      let lastSent = 0;
+      const send = (items: PublishedItem[]) => {
+        for (const item of items) {
+          if (item.sequence <= lastSent || !wanted(item)) continue;
+          lastSent = item.sequence;
+          res.write(
+            `id: ${item.sequence}\nevent: item\ndata: ${JSON.stringify({
+              ...twitterService.transformToFeedItem(item.tweet),
+              sourceIds: item.sourceIds,
+            })}\n\n`
+          );
+        }
+      };
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+      const lastEventId = parseInt(
+        String(req.get('Last-Event-ID') ?? req.query.lastEventId ?? '')
+      );
+      // Items published while the replay is read wait for it, so that they
+      // neither overtake nor hide the items the client missed.
+      let held: PublishedItem[][] | null = lastEventId >= 0 ? [] : null;
+      const unsubscribe = twitterService.onItemsPublished((items) =>
+        held ? held.push(items) : send(items)
+      );
+      const heartbeat = setInterval(
+        () => res.write(': heartbeat\n\n'),
+        STREAM_HEARTBEAT_MS
+      );
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+
+      if (held) {
+        lastSent = lastEventId;
+        try {
+          send(await twitterService.getPublishedItemsSince(lastEventId));
+        } finally {
+          held.forEach(send);
+          held = null;
+        }
+      }
+    });
+
+    // Built-in WebSub hub: accepts subscriptions to the feeds and verifies
+    // them with the callback in the background, as the spec requires.
+    this.app.post('/websub', async (req, res) => {
+      const twitterService = this.getTwitterService();
+      const hub = twitterService?.getWebSubHub();
+      if (!twitterService || !hub) {
+        res.status(404).json({ error: 'WebSub hub not enabled' });
+        return;
+      }
+
+      const request = parseWebSubRequest(req.body ?? {});
+      if (typeof request === 'string') {
+        res.status(400).json({ error: request });
+        return;
+      }
+      const topic = twitterService
+        .getFeedTopics()
+        .find((candidate) => candidate.url === request.topic);
+      if (!topic) {
+        res.status(400).json({ error: `Unknown topic ${request.topic}` });
+        return;
+      }
+      const subscriber: SubscriberToken | undefined = res.locals.subscriber;
+      if (
+        subscriber &&
+        !tokenAllows(subscriber, topic.sourceId ?? COMBINED_FEED_SCOPE)
+      ) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'The token is not scoped to this feed.',
+        });
+        return;
+      }
+
+      void hub.verify(request);
+      res.status(202).end();
+    });
+
+    this.app.get('/tokens', async (_req, res) => {
+      const tokens = await this.subscriberTokens.list();
+      res.json({ tokens: tokens.map(describeToken) });
+    });
+
+    // Issues a subscriber token; the token is only ever shown in this response.
+    this.app.post('/tokens', async (req, res) => {
+      const { name, scopes } = req.body ?? {};
+      if (typeof name !== 'string' || !name.trim()) {
+        res.status(400).json({ error: 'A subscriber name is required' });
+        return;
+      }
+      const known = [
+        ALL_FEEDS_SCOPE,
+        COMBINED_FEED_SCOPE,
+        ...this.getSources().map((source) => source.id),
+      ];
+      if (
+        !Array.isArray(scopes) ||
+        scopes.length === 0 ||
+        !scopes.every((scope) => known.includes(scope))
+      ) {
+        res.status(400).json({
+          error: 'Invalid scopes',
+          message: `Scopes must be a non-empty list of: ${known.join(', ')}`,
+        });
+        return;
+      }
+
+      const { token, record } = await this.subscriberTokens.issue(
+        name.trim(),
+        scopes
+      );
+      res.status(201).json({
+        ...describeToken(record),
+        token,
+        feedUrl: `/t/${token}/rss`,
+      });
+    });
+
+    this.app.delete('/tokens/:tokenId', async (req, res) => {
+      if (!(await this.subscriberTokens.revoke(req.params.tokenId))) {
+        res.status(404).json({ error: 'Token not found' });
+        return;
+      }
+      res.json({ success: true });
+    });
+
+    this.app.get('/runs', async (req, res) => {
+      let limit: number | undefined;
+      if (req.query.limit !== undefined) {
+        limit = Number(req.query.limit);
+        if (!Number.isInteger(limit) || limit < 1) {
+          res.status(400).json({ error: 'limit must be a positive integer' });
+          return;
+        }
+      }
+      res.json({
+        runs: (await this.getTwitterService()?.listRuns(limit)) ?? [],
+      });
+    });
+
+    this.app.get('/runs/:runId', async (req, res) => {
+      const run = await this.getTwitterService()?.getRun(req.params.runId);
+      if (!run) {
+        res.status(404).json({ error: 'Run not found' });
+        return;
+      }
+      res.json(run);
+    });
+
     this.app.get('/status', async (_req, res) => {
       try {
-        const outputDir =
-          this.runtime.getSetting?.('RSS_OUTPUT_DIR') || process.env.RSS_OUTPUT_DIR || './rss-feeds';
-        const rssFile = path.join(outputDir, 'twitter_lists.xml');
+        const rssFile = path.join(this.getOutputDir(), feedFilename());
 
         let fileStats: any = null;
         try {
@@ -108,25 +506,81 @@ export class RSSServerService extends Service {
           fileStats = { exists: false };
         }
 
-        const lists = (
-          this.runtime.getSetting?.('TWITTER_LISTS') || process.env.TWITTER_LISTS || ''
-        )
-          .split(',')
-          .filter(Boolean);
+        const sources = this.getSources();
+        const lists = sources.filter((source) => source.type === 'list');
+        const schedule = this.getUpdateSchedule(sources);
+        const failures = this.getTwitterService()?.getSourceFailures() ?? {};
+        const failureStats = (id: string) =>
+          failures[id] ?? {
+            consecutiveFailures: 0,
+            totalFailures: 0,
+            lastError: null,
+            lastFailureAt: null,
+            lastSuccessAt: null,
+          };
 
         res.json({
           status: 'running',
           rssFile: fileStats,
           monitoring: {
             totalLists: lists.length,
-            lists: lists.map((id) => id.trim()),
-            updateInterval: `${
-              this.runtime.getSetting?.('RSS_UPDATE_INTERVAL') || process.env.RSS_UPDATE_INTERVAL || '30'
-            } minutes`,
+            lists: lists.map((list) => list.query),
+            feeds: lists.map((list) => ({
+              listId: list.query,
+              name: list.name,
+              path: feedRoute('rss', list.query),
+              formats: Object.fromEntries(
+                FEED_FORMAT_NAMES.map((format) => [
+                  format,
+                  feedRoute(format, list.query),
+                ])
+              ),
+              schedule: {
+                cron: schedule.sources[list.id] ?? schedule.cron,
+                nextRun: nextSourceRun(schedule, list.id),
+              },
+              failures: failureStats(list.id),
+            })),
+            totalSources: sources.length,
+            sources: sources.map((source) => ({
+              id: source.id,
+              type: source.type,
+              query: source.query,
+              name: source.name,
+              path: sourceFeedRoute('rss', source),
+              formats: Object.fromEntries(
+                FEED_FORMAT_NAMES.map((format) => [
+                  format,
+                  sourceFeedRoute(format, source),
+                ])
+              ),
+              schedule: {
+                cron: schedule.sources[source.id] ?? schedule.cron,
+                nextRun: nextSourceRun(schedule, source.id),
+              },
+              failures: failureStats(source.id),
+            })),
+            // Left out when RSS_UPDATE_CRON sets the schedule instead.
+            updateInterval:
+              schedule.intervalMinutes === null
+                ? undefined
+                : `${schedule.intervalMinutes} minutes`,
+            schedule: {
+              cron: schedule.cron,
+              quietHours: schedule.quietHours,
+              skipInitialRun: schedule.skipInitialRun,
+              nextRun:
+                nextScheduledRun(
+                  schedule.cron,
+                  schedule.quietHours
+                )?.toISOString() ?? null,
+            },
             maxTweetsPerList: parseInt(
               (this.runtime.getSetting?.('MAX_TWEETS_PER_LIST') || process.env.MAX_TWEETS_PER_LIST || '50') as string
             ),
           },
+          proxy: this.getTwitterService()?.getProxyStatus() ?? null,
+          currentRun: this.getTwitterService()?.getCurrentRun() ?? null,
           server: {
             port: this.port,
             uptime: process.uptime(),
@@ -140,12 +594,306 @@ export class RSSServerService extends Service {
       }
     });
 
-    this.app.get('/health', (_req, res) => {
+    this.app.get('/metrics', async (_req, res) => {
+      try {
+        const twitterService = this.getTwitterService();
+        const body =
+          (await this.metrics.render()) +
+          (twitterService ? await twitterService.getMetrics().render() : '');
+        res.set('Content-Type', METRICS_CONTENT_TYPE).send(body);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Liveness: the process is up and serving. `/health` is kept as an alias.
+    this.app.get(['/health', '/health/live'], (_req, res) => {
       res.json({
         status: 'healthy',
         timestamp: new Date().toISOString(),
       });
     });
+
+    this.app.get('/health/ready', async (req, res) => {
+      const twitterService = this.getTwitterService();
+      const report: ReadinessReport = twitterService
+        ? await twitterService.checkReadiness()
+        : {
+            ready: false,
+            checks: {
+              service: {
+                status: 'fail',
+                message: 'Twitter RSS service not available',
+              },
+            },
+          };
+      const status = report.ready ? 'ready' : 'degraded';
+      // The checks name directories and fetch errors, so probes without a
+      // token only get the status.
+      if (!(await this.carriesValidToken(req))) {
+        res.status(report.ready ? 200 : 503).json({ status });
+        return;
+      }
+      res.status(report.ready ? 200 : 503).json({
+        status,
+        checks: report.checks,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    // Feeds under their output filenames (`/twitter_lists.xml`,
+    // `/lists/<id>.atom`), as served before the output directory stopped
+    // being served as is. Nothing else in it is reachable.
+    this.app.get(
+      ['/:filename', '/lists/:filename', '/sources/:filename'],
+      async (req, res, next) => {
+        const feed = this.getPublishedFeeds().get(req.path.slice(1));
+        if (!feed) return next();
+        if (feed.digest) {
+          await this.sendDigestFeed(req, res, feed.format);
+          return;
+        }
+        await this.sendFeed(req, res, feed.format, feed.source);
+      }
+    );
+  }
+
+  /** Published feed files by path relative to the output directory. */
+  private getPublishedFeeds(): Map<
+    string,
+    { format: FeedFormat; source?: TweetSource; digest?: boolean }
+  > {
+    const feeds = new Map<
+      string,
+      { format: FeedFormat; source?: TweetSource; digest?: boolean }
+    >();
+    const sources = this.getSources();
+    for (const format of FEED_FORMAT_NAMES) {
+      feeds.set(feedFilename(undefined, format), { format });
+      feeds.set(digestFeedFilename(format), { format, digest: true });
+      for (const source of sources) {
+        feeds.set(sourceFeedFilename(source, format), { format, source });
+      }
+    }
+    return feeds;
+  }
+
+  private getOutputDir(): string {
+    return (
+      this.runtime.getSetting?.('RSS_OUTPUT_DIR') || process.env.RSS_OUTPUT_DIR || './rss-feeds'
+    );
+  }
+
+  private getStateDir(): string {
+    return (
+      this.runtime.getSetting?.('RSS_STATE_DIR') || process.env.RSS_STATE_DIR || DEFAULT_STATE_DIR
+    );
+  }
+
+  private getTwitterService(): TwitterRSSService | null {
+    const twitterService = this.runtime.getService(
+      TwitterRSSService.serviceType
+    );
+    return twitterService instanceof TwitterRSSService ? twitterService : null;
+  }
+
+  private getSources(): TweetSource[] {
+    const twitterService = this.getTwitterService();
+    if (twitterService) {
+      return twitterService.getSources();
+    }
+    return parseTweetSources(
+      (key) => this.runtime.getSetting?.(key) || process.env[key]
+    );
+  }
+
+  private getUpdateSchedule(sources: TweetSource[]): UpdateSchedule {
+    const twitterService = this.getTwitterService();
+    if (twitterService) {
+      return twitterService.getUpdateSchedule();
+    }
+    return parseUpdateSchedule(
+      (key) => this.runtime.getSetting?.(key) || process.env[key],
+      sources
+    );
+  }
+
+  private getDigestSchedule(): string | null {
+    const twitterService = this.getTwitterService();
+    if (twitterService) {
+      return twitterService.getDigestSchedule();
+    }
+    return parseDigestSchedule(
+      this.runtime.getSetting?.('RSS_DIGEST_SCHEDULE') ||
+        process.env.RSS_DIGEST_SCHEDULE
+    );
+  }
+
+  private negotiateFormat(req: express.Request): FeedFormat {
+    const mediaType = req.accepts(Object.keys(NEGOTIABLE_MEDIA_TYPES));
+    return mediaType ? NEGOTIABLE_MEDIA_TYPES[mediaType] : 'rss';
+  }
+
+  private async sendListFeed(
+    req: express.Request,
+    res: express.Response,
+    format: FeedFormat,
+    listId: string
+  ): Promise<void> {
+    const list = this.getSources().find(
+      (source) => source.type === 'list' && source.query === listId
+    );
+    if (!list) {
+      res.status(404).json({
+        error: 'List not found',
+        message: `List ${listId} is not monitored.`,
+      });
+      return;
+    }
+    await this.sendFeed(req, res, format, list);
+  }
+
+  private async sendSourceFeed(
+    req: express.Request,
+    res: express.Response,
+    format: FeedFormat,
+    sourceId: string
+  ): Promise<void> {
+    const source = this.getSources().find((source) => source.id === sourceId);
+    if (!source) {
+      res.status(404).json({
+        error: 'Source not found',
+        message: `Source ${sourceId} is not monitored.`,
+      });
+      return;
+    }
+    await this.sendFeed(req, res, format, source);
+  }
+
+  private async sendFeed(
+    req: express.Request,
+    res: express.Response,
+    format: FeedFormat,
+    source?: TweetSource
+  ): Promise<void> {
+    if (!this.checkFeedScope(res, source?.id ?? COMBINED_FEED_SCOPE)) return;
+    const filename = source
+      ? sourceFeedFilename(source, format)
+      : feedFilename(undefined, format);
+    await this.sendFeedFile(req, res, format, filename, this.feedMaxAge(source));
+  }
+
+  /** The digest summarizes every list, so it needs the combined feed scope. */
+  private async sendDigestFeed(
+    req: express.Request,
+    res: express.Response,
+    format: FeedFormat
+  ): Promise<void> {
+    if (!this.checkFeedScope(res, COMBINED_FEED_SCOPE)) return;
+    const schedule = this.getDigestSchedule();
+    const interval = schedule && scheduleIntervalMs(schedule);
+    await this.sendFeedFile(
+      req,
+      res,
+      format,
+      digestFeedFilename(format),
+      interval
+        ? Math.max(1, Math.round(interval / 1000))
+        : DEFAULT_FEED_MAX_AGE_SECONDS
+    );
+  }
+
+  /** Answers 403 and returns false when a subscriber token lacks `scope`. */
+  private checkFeedScope(res: express.Response, scope: string): boolean {
+    const subscriber: SubscriberToken | undefined = res.locals.subscriber;
+    if (subscriber && !tokenAllows(subscriber, scope)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'The token is not scoped to this feed.',
+      });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Sends a feed file with an ETag of its content and the build time as
+   * Last-Modified, answering 304 when the client's copy is current. The
+   * body is brotli or gzip compressed when the client accepts it.
+   */
+  private async sendFeedFile(
+    req: express.Request,
+    res: express.Response,
+    format: FeedFormat,
+    filename: string,
+    maxAge: number
+  ): Promise<void> {
+    try {
+      const filePath = path.join(this.getOutputDir(), filename);
+      const [content, stats] = await Promise.all([
+        fs.readFile(filePath),
+        fs.stat(filePath),
+      ]);
+      // Weak, so the compressed and identity bodies share one validator.
+      const etag = `W/"${createHash('sha1').update(content).digest('base64url')}"`;
+      res.vary('Accept-Encoding');
+      res.set({
+        'Content-Type': `${FEED_FORMATS[format].contentType}; charset=utf-8`,
+        // Feeds behind a token must not be kept by shared caches.
+        'Cache-Control': `${this.apiToken ? 'private' : 'public'}, max-age=${maxAge}`,
+        ETag: etag,
+        'Last-Modified': stats.mtime.toUTCString(),
+      });
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      const encoding = req.acceptsEncodings('br', 'gzip');
+      if (encoding === 'br' || encoding === 'gzip') {
+        res.set('Content-Encoding', encoding);
+        res.send(await this.compressFeed(filename, encoding, etag, content));
+        return;
+      }
+      res.send(content);
+    } catch (error) {
+      res.status(404).json({
+        error: 'RSS feed not found',
+        message: 'Feed may not be generated yet. Try triggering an update first.',
+      });
+    }
+  }
+
+  private async compressFeed(
+    filename: string,
+    encoding: ContentEncoding,
+    etag: string,
+    content: Buffer
+  ): Promise<Buffer> {
+    const key = `${filename}:${encoding}`;
+    const cached = this.compressedFeeds.get(key);
+    if (cached?.etag === etag) return cached.body;
+    const body = await compressors[encoding](content);
+    this.compressedFeeds.set(key, { etag, body });
+    return body;
+  }
+
+  /**
+   * Seconds a feed stays fresh: the interval between scheduled updates of
+   * its source, or the shortest interval of any source for the combined
+   * feed.
+   */
+  private feedMaxAge(source?: TweetSource): number {
+    const schedule = this.getUpdateSchedule(this.getSources());
+    const expressions = source
+      ? [schedule.sources[source.id] ?? schedule.cron]
+      : [schedule.cron, ...Object.values(schedule.sources)];
+    const intervals = expressions
+      .map((expression) => scheduleIntervalMs(expression))
+      .filter((interval): interval is number => interval !== null);
+    return intervals.length > 0
+      ? Math.max(1, Math.round(Math.min(...intervals) / 1000))
+      : DEFAULT_FEED_MAX_AGE_SECONDS;
   }
 
   static async start(runtime: IAgentRuntime) {
@@ -169,6 +917,9 @@ export class RSSServerService extends Service {
       logger.info(
         `📡 RSS Feed available at: http://localhost:${this.port}/rss`
       );
+      logger.info(
+        `📡 Atom and JSON Feed at: http://localhost:${this.port}/atom, http://localhost:${this.port}/feed.json`
+      );
       logger.info(`📊 Status endpoint: http://localhost:${this.port}/status`);
     });
   }
@@ -180,3 +931,21 @@ export class RSSServerService extends Service {
     }
   }
 }
+
+/** Constant-time token comparison; hashing first evens out the lengths. */
+function tokensMatch(provided: string, expected: string): boolean {
+  const digest = (token: string) => createHash('sha256').update(token).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+/** A subscriber token without its hash, for the admin API. */
+function describeToken(token: SubscriberToken) {
+  return {
+    id: token.id,
+    name: token.name,
+    scopes: token.scopes,
+    createdAt: token.createdAt,
+    revokedAt: token.revokedAt,
+    lastUsedAt: token.lastUsedAt,
+  };
+}
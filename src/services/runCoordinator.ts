@@ -0,0 +1,185 @@
+import { randomUUID } from 'crypto';
+
+/** What asked for an update run. */
+export type RunTrigger = 'initial' | 'scheduled' | 'http' | 'action' | 'manual';
+
+export type RunStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface UpdateRun<T> {
+  id: string;
+  /** Every trigger served by this run, in arrival order. */
+  triggers: RunTrigger[];
+  /** Sources the run updates, or null for all of them. */
+  sourceIds: string[] | null;
+  status: RunStatus;
+  queuedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationMs: number | null;
+  result: T | null;
+  error: string | null;
+}
+
+export interface TriggeredRun<T> {
+  run: UpdateRun<T>;
+  /** Whether the trigger joined a run that already existed. */
+  joined: boolean;
+  /** Settles with the outcome of the run. */
+  done: Promise<T>;
+}
+
+interface PendingRun<T> {
+  run: UpdateRun<T>;
+  done: Promise<T>;
+  resolve: (result: T) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Single-flight lock around update runs. At most one run executes at a
+ * time. A scheduled trigger that arrives during a run joins it when the
+ * run covers its sources; any other trigger queues a single follow-up run,
+ * which later triggers join, so a burst of requests costs one extra run.
+ */
+export class RunCoordinator<T> {
+  private active: PendingRun<T> | null = null;
+  private followUp: PendingRun<T> | null = null;
+  private runs: UpdateRun<T>[] = [];
+
+  /**
+   * @param onFinish - Called with each run once it succeeded or failed,
+   *   before callers waiting on it are resumed.
+   */
+  constructor(
+    private execute: (sourceIds?: string[]) => Promise<T>,
+    private onFinish?: (run: UpdateRun<T>) => void | Promise<void>,
+    private maxRuns = 50
+  ) {}
+
+  trigger(trigger: RunTrigger, sourceIds?: string[]): TriggeredRun<T> {
+    if (
+      this.active &&
+      !this.followUp &&
+      trigger === 'scheduled' &&
+      covers(this.active.run.sourceIds, sourceIds)
+    ) {
+      return this.join(this.active, trigger, sourceIds);
+    }
+    if (this.followUp) {
+      return this.join(this.followUp, trigger, sourceIds);
+    }
+
+    const pending = this.createRun(trigger, sourceIds);
+    if (this.active) {
+      this.followUp = pending;
+    } else {
+      this.start(pending);
+    }
+    return { run: pending.run, joined: false, done: pending.done };
+  }
+
+  /** A recent run by ID, or undefined once it has been evicted. */
+  get(id: string): UpdateRun<T> | undefined {
+    return this.runs.find((run) => run.id === id);
+  }
+
+  /** Recent runs, newest first. */
+  list(): UpdateRun<T>[] {
+    return [...this.runs].reverse();
+  }
+
+  /** The run executing right now, if any. */
+  current(): UpdateRun<T> | null {
+    return this.active?.run ?? null;
+  }
+
+  private join(
+    pending: PendingRun<T>,
+    trigger: RunTrigger,
+    sourceIds?: string[]
+  ): TriggeredRun<T> {
+    const { run } = pending;
+    run.triggers.push(trigger);
+    if (run.status === 'queued') {
+      run.sourceIds =
+        run.sourceIds && sourceIds
+          ? [...new Set([...run.sourceIds, ...sourceIds])]
+          : null;
+    }
+    return { run, joined: true, done: pending.done };
+  }
+
+  private createRun(trigger: RunTrigger, sourceIds?: string[]): PendingRun<T> {
+    const run: UpdateRun<T> = {
+      id: randomUUID(),
+      triggers: [trigger],
+      sourceIds: sourceIds ? [...sourceIds] : null,
+      status: 'queued',
+      queuedAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      durationMs: null,
+      result: null,
+      error: null,
+    };
+    this.runs.push(run);
+    if (this.runs.length > this.maxRuns) {
+      this.runs.splice(0, this.runs.length - this.maxRuns);
+    }
+
+    let resolve!: (result: T) => void;
+    let reject!: (error: unknown) => void;
+    const done = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Nobody may wait on a scheduled run; its failure is recorded on the run.
+    done.catch(() => {});
+    return { run, done, resolve, reject };
+  }
+
+  private start(pending: PendingRun<T>): void {
+    this.active = pending;
+    const { run } = pending;
+    run.status = 'running';
+    const startedAt = Date.now();
+    run.startedAt = new Date(startedAt).toISOString();
+
+    const finish = async () => {
+      run.durationMs = Date.now() - startedAt;
+      run.finishedAt = new Date(startedAt + run.durationMs).toISOString();
+      try {
+        await this.onFinish?.(run);
+      } catch {
+        // Recording a run must not wedge the coordinator.
+      }
+      this.active = null;
+      const next = this.followUp;
+      this.followUp = null;
+      if (next) this.start(next);
+    };
+
+    Promise.resolve()
+      .then(() => this.execute(run.sourceIds ?? undefined))
+      .then(
+        async (result) => {
+          run.status = 'succeeded';
+          run.result = result;
+          await finish();
+          pending.resolve(result);
+        },
+        async (error) => {
+          run.status = 'failed';
+          run.error = error instanceof Error ? error.message : String(error);
+          await finish();
+          pending.reject(error);
+        }
+      );
+  }
+}
+
+/** Whether a run over `running` sources also updates `requested`. */
+function covers(running: string[] | null, requested?: string[]): boolean {
+  if (!running) return true;
+  return !!requested && requested.every((id) => running.includes(id));
+}
@@ -0,0 +1,144 @@
+import { logger } from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+import type { UpdateRun } from './runCoordinator';
+import type { SourceRunReport } from '../types';
+
+/** The parts of an update result the history keeps for every run. */
+export interface RunHistoryResult {
+  totalTweets: number;
+  feedItems: number;
+  sources: Record<string, SourceRunReport>;
+}
+
+export type RunRecord = UpdateRun<RunHistoryResult>;
+
+/**
+ * A run as the history and the runs API show it, whether it is still
+ * pending or finished: the result is cut down to its counts.
+ */
+export function toRunRecord(run: UpdateRun<RunHistoryResult>): RunRecord {
+  const { result } = run;
+  return {
+    ...run,
+    triggers: [...run.triggers],
+    result: result
+      ? {
+          totalTweets: result.totalTweets,
+          feedItems: result.feedItems,
+          sources: result.sources,
+        }
+      : null,
+  };
+}
+
+/**
+ * The last finished update runs, newest first, kept as JSON in the state
+ * directory so they survive restarts.
+ */
+export class RunHistory {
+  private runs: RunRecord[] = [];
+  private loaded = false;
+
+  constructor(
+    private filePath: string,
+    private maxRuns = 50
+  ) {}
+
+  static fromStateDir(stateDir: string, maxRuns?: number): RunHistory {
+    return new RunHistory(path.join(stateDir, 'run_history.json'), maxRuns);
+  }
+
+  async load(): Promise<void> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.runs = Array.isArray(stored) ? stored.slice(0, this.maxRuns) : [];
+    } catch {
+      this.runs = [];
+    }
+    this.loaded = true;
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+    }
+  }
+
+  /** Adds a finished run, dropping the oldest beyond the limit, and saves. */
+  async record(run: UpdateRun<RunHistoryResult>): Promise<void> {
+    await this.ensureLoaded();
+    const record = toRunRecord(run);
+    this.runs = [record, ...this.runs.filter((r) => r.id !== run.id)].slice(
+      0,
+      this.maxRuns
+    );
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(this.runs, null, 2));
+    } catch (error) {
+      logger.error('Failed to save run history:', error);
+    }
+  }
+
+  /** Finished runs, newest first. */
+  list(limit?: number): RunRecord[] {
+    return this.runs.slice(0, limit ?? this.runs.length);
+  }
+
+  get(id: string): RunRecord | undefined {
+    return this.runs.find((run) => run.id === id);
+  }
+}
+
+/**
+ * Chat-sized summary of the runs that started since `since`: outcome
+ * counts, with runs still in progress counted apart, new and published
+ * tweets, and the errors per source.
+ */
+export function summarizeRuns(runs: RunRecord[], since: Date): string {
+  const recent = runs.filter(
+    (run) => run.startedAt && Date.parse(run.startedAt) >= since.getTime()
+  );
+  if (recent.length === 0) return 'No update runs';
+
+  const failed = recent.filter((run) => run.status === 'failed');
+  const succeeded = recent.filter((run) => run.status === 'succeeded');
+  // Queued runs have not started yet, so only running ones are unfinished.
+  const running = recent.filter((run) => run.status === 'running');
+  let published = 0;
+  let filtered = 0;
+  const errors = new Map<string, { message: string; count: number }>();
+  for (const run of recent) {
+    for (const [sourceId, report] of Object.entries(
+      run.result?.sources ?? {}
+    )) {
+      published += report.published;
+      filtered += report.filtered;
+      if (report.error) {
+        // Runs are newest first, so the first error seen is the latest.
+        const entry = errors.get(sourceId) ?? {
+          message: report.error,
+          count: 0,
+        };
+        errors.set(sourceId, { ...entry, count: entry.count + 1 });
+      }
+    }
+  }
+
+  const lines = [
+    `${recent.length} runs (${succeeded.length} succeeded, ${
+      failed.length
+    } failed${
+      running.length > 0 ? `, ${running.length} running` : ''
+    }), ${published} tweets published, ${filtered} filtered`,
+  ];
+  for (const run of failed.slice(0, 3)) {
+    lines.push(`Run at ${run.startedAt} failed: ${run.error}`);
+  }
+  for (const [sourceId, { message, count }] of errors) {
+    lines.push(`${sourceId} failed in ${count} runs, last: ${message}`);
+  }
+  return lines.join('\n');
+}
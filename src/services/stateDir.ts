@@ -0,0 +1,61 @@
+import { logger } from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+
+export const DEFAULT_STATE_DIR = './rss-state';
+
+/**
+ * Files the plugin used to keep next to the published feeds. They hold
+ * internal state (session cookies, subscriber tokens, processed IDs) and
+ * now live in `RSS_STATE_DIR`.
+ */
+export const STATE_FILES = [
+  'feed_items.json',
+  'filters.json',
+  'processed_tweets.json',
+  'processed_tweets.jsonl',
+  'run_history.json',
+  'subscriber_tokens.json',
+  'twitter_cookies.json',
+];
+
+/**
+ * Moves state files left in the output directory by earlier versions into
+ * the state directory. A file already present in the state directory wins
+ * and the old copy is left alone. Returns the names of the moved files.
+ */
+export async function migrateStateFiles(
+  outputDir: string,
+  stateDir: string
+): Promise<string[]> {
+  if (path.resolve(outputDir) === path.resolve(stateDir)) return [];
+
+  const moved: string[] = [];
+  for (const filename of STATE_FILES) {
+    const from = path.join(outputDir, filename);
+    const to = path.join(stateDir, filename);
+    if (!(await exists(from)) || (await exists(to))) continue;
+
+    try {
+      await fs.mkdir(stateDir, { recursive: true });
+      await fs.copyFile(from, to);
+      await fs.unlink(from);
+      moved.push(filename);
+    } catch (error) {
+      logger.error(`Failed to move ${from} to ${to}:`, error);
+    }
+  }
+  if (moved.length > 0) {
+    logger.info(`Moved ${moved.join(', ')} from ${outputDir} to ${stateDir}`);
+  }
+  return moved;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,138 @@
+import { logger } from '@elizaos/core';
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/** Scope granting every feed. */
+export const ALL_FEEDS_SCOPE = '*';
+/** Scope of the combined feeds (`/rss`, `/atom`, `/feed.json`, `/feed`). */
+export const COMBINED_FEED_SCOPE = 'all';
+
+/**
+ * A feed reader's credential. Only a hash of the token is stored; the
+ * token itself is returned once, when it is issued.
+ */
+export interface SubscriberToken {
+  id: string;
+  /** Who the token was issued to. */
+  name: string;
+  /** `*`, `all` for the combined feeds, or list and source IDs. */
+  scopes: string[];
+  tokenHash: string;
+  createdAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+}
+
+/** How often a token's last use is written to disk, at most. */
+const LAST_USED_SAVE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Subscriber tokens, kept as JSON in the state directory. Feed readers
+ * pass a token as `?token=` or as a `/t/<token>/` path prefix, since most
+ * of them cannot send an `Authorization` header.
+ */
+export class SubscriberTokenStore {
+  private tokens: SubscriberToken[] = [];
+  private loaded = false;
+  private lastSavedAt = 0;
+
+  constructor(private filePath: string) {}
+
+  static fromStateDir(stateDir: string): SubscriberTokenStore {
+    return new SubscriberTokenStore(
+      path.join(stateDir, 'subscriber_tokens.json')
+    );
+  }
+
+  async load(): Promise<void> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.tokens = Array.isArray(stored) ? stored : [];
+    } catch {
+      this.tokens = [];
+    }
+    this.loaded = true;
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+    }
+  }
+
+  /** Issues a token; the returned `token` is not stored and cannot be recovered. */
+  async issue(
+    name: string,
+    scopes: string[]
+  ): Promise<{ token: string; record: SubscriberToken }> {
+    await this.ensureLoaded();
+    const token = randomBytes(24).toString('base64url');
+    const record: SubscriberToken = {
+      id: randomBytes(6).toString('hex'),
+      name,
+      scopes: [...new Set(scopes)],
+      tokenHash: hashToken(token),
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+      lastUsedAt: null,
+    };
+    this.tokens.push(record);
+    await this.save();
+    return { token, record };
+  }
+
+  /** Revokes a token by ID; false when there is no such token. */
+  async revoke(id: string): Promise<boolean> {
+    await this.ensureLoaded();
+    const record = this.tokens.find((token) => token.id === id);
+    if (!record) return false;
+    record.revokedAt ??= new Date().toISOString();
+    await this.save();
+    return true;
+  }
+
+  async list(): Promise<SubscriberToken[]> {
+    await this.ensureLoaded();
+    return [...this.tokens];
+  }
+
+  /**
+   * The active token matching `token`, with its last use set to now, or
+   * null when it is unknown or revoked.
+   */
+  async authenticate(token: string): Promise<SubscriberToken | null> {
+    await this.ensureLoaded();
+    const tokenHash = hashToken(token);
+    const record = this.tokens.find(
+      (candidate) => candidate.tokenHash === tokenHash && !candidate.revokedAt
+    );
+    if (!record) return null;
+
+    record.lastUsedAt = new Date().toISOString();
+    // Feed readers poll often; persist the last use at most once a minute.
+    if (Date.now() - this.lastSavedAt >= LAST_USED_SAVE_INTERVAL_MS) {
+      await this.save();
+    }
+    return record;
+  }
+
+  private async save(): Promise<void> {
+    this.lastSavedAt = Date.now();
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(this.tokens, null, 2));
+    } catch (error) {
+      logger.error('Failed to save subscriber tokens:', error);
+    }
+  }
+}
+
+/** Whether a token may read the feed of `scope` (a source ID or `all`). */
+export function tokenAllows(token: SubscriberToken, scope: string): boolean {
+  return token.scopes.includes(ALL_FEEDS_SCOPE) || token.scopes.includes(scope);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -1,94 +1,271 @@
-import { Service, IAgentRuntime, logger } from '@elizaos/core';
-import { Scraper } from 'agent-twitter-client';
+import { IAgentRuntime, ModelType, Service, logger } from '@elizaos/core';
 import fs from 'fs/promises';
+import cron from 'node-cron';
+import type { ScheduledTask } from 'node-cron';
 import path from 'path';
-import { XMLBuilder } from 'fast-xml-parser';
+import { ChatDelivery } from './chatDelivery';
+import {
+  Digest,
+  DigestStore,
+  buildDigestPrompt,
+  groupForDigest,
+  renderDigestHtml,
+} from './digest';
+import { FeedItemStore, PublishedItem } from './feedItemStore';
+import { ListRegistry, ManagedList } from './listRegistry';
+import {
+  ProxyStatus,
+  RequestPolicy,
+  TweetFetcher,
+  createTweetFetcher,
+  fetchErrorType,
+  isAuthError,
+} from '../fetchers';
+import {
+  FilterReport,
+  TweetFilter,
+  createFilterReport,
+  recordFilterResult,
+} from '../filters';
+import { ProcessedTweetIndex } from './processedTweetIndex';
+import { DEFAULT_STATE_DIR, migrateStateFiles } from './stateDir';
+import {
+  RunCoordinator,
+  RunTrigger,
+  TriggeredRun,
+  UpdateRun,
+} from './runCoordinator';
+import { RunHistory, RunRecord, toRunRecord } from './runHistory';
+import { TwitterSessionStore } from './twitterSession';
+import { WebSubHub, WebSubTopic, publishToHub } from './webSub';
+import { WebhookDispatcher } from './webhooks';
+import {
+  FEED_FORMAT_NAMES,
+  FEED_FORMATS,
+  FeedFormat,
+  digestFeedFilename,
+  digestFeedRoute,
+  feedFilename,
+  feedRoute,
+  sourceFeedFilename,
+  sourceFeedRoute,
+} from '../formats';
+import { MetricsRegistry, RUN_DURATION_BUCKETS } from '../metrics';
+import {
+  UpdateSchedule,
+  isQuietTime,
+  parseDigestSchedule,
+  parseUpdateSchedule,
+  quietHoursDurationMs,
+  scheduleIntervalMs,
+} from '../schedule';
+import { primaryImage, renderTweetHtml } from '../formats/html';
+import {
+  listSource,
+  parseListReference,
+  parseTwitterLists,
+  parseTwitterSearches,
+  parseTwitterUsers,
+  sourceDescription,
+  sourceLink,
+} from '../sources';
+import type {
+  FeedItem,
+  FeedModel,
+  HealthCheck,
+  RawTweetData,
+  ReadinessReport,
+  SourceFailureStats,
+  SourceRunReport,
+  TweetData,
+  TweetSource,
+  TwitterListConfig,
+} from '../types';
 
-interface TwitterListConfig {
-  listId: string;
-  name?: string;
-  lastProcessedTweetId?: string;
-}
-
-interface RawTweetData {
-  id?: string;
-  text?: string;
-  username?: string;
-  name?: string;
-  isVerified?: boolean;
-  timestamp?: number | string;
-  isRetweet?: boolean;
-  isReply?: boolean;
-  inReplyToStatusId?: string;
-  retweetedStatus?: any;
-  quotedStatus?: any;
-  photos?: Array<{ url: string }>;
-  likes?: number;
-  retweets?: number;
-  thread?: RawTweetData[];
-  replies?: number;
-  [key: string]: any;
-}
-
-interface TweetData {
-  id: string;
-  text: string;
-  author: {
-    username: string;
-    name: string;
-    verified?: boolean;
-  };
-  createdAt: Date;
-  url: string;
-  isRetweet: boolean;
-  isReply: boolean;
-  replyToTweetId?: string;
-  retweetedTweet?: any;
-  quotedTweet?: any;
-  media?: Array<{
-    type: string;
-    url: string;
-  }>;
-  metrics?: {
-    likes: number;
-    retweets: number;
-    replies: number;
-  };
-  thread?: TweetData[];
-}
+/** Minimum time between re-authentication attempts after a failed login. */
+const LOGIN_RETRY_INTERVAL_MS = 5 * 60 * 1000;
 
-interface RSSItem {
-  title: string;
-  description: string;
-  link: string;
-  pubDate: string;
-  guid: string;
-  author: string;
-  category?: string[];
-}
-
-interface RSSFeed {
-  title: string;
-  description: string;
-  link: string;
-  lastBuildDate: string;
-  items: RSSItem[];
+export interface UpdateResult {
+  totalTweets: number;
+  feedItems: number;
+  rssPath: string;
+  filterReports: Record<string, FilterReport>;
+  /** Per list or source counts and errors, keyed by source ID. */
+  sources: Record<string, SourceRunReport>;
+  /** Tweets the run published, keyed by list or source ID. */
+  published: Record<string, TweetData[]>;
 }
 
 export class TwitterRSSService extends Service {
   static serviceType = 'twitter-rss';
-  private scraper: Scraper;
+  private fetcher: TweetFetcher;
   private isLoggedIn = false;
+  private lastLoginAttempt = 0;
+  private session: TwitterSessionStore;
   private twitterLists: TwitterListConfig[] = [];
-  private processedTweetIds: Set<string> = new Set();
-  private schedulerInterval: NodeJS.Timeout | null = null;
+  /** User timeline and search sources; lists are kept in `twitterLists`. */
+  private extraSources: TweetSource[] = [];
+  private processedTweetIds: ProcessedTweetIndex;
+  private scheduledTasks: ScheduledTask[] = [];
+  private schedulerStarted = false;
+  private readonly startedAt = Date.now();
+  private outputDir: string;
+  private stateDir: string;
+  private runs = new RunCoordinator<UpdateResult>(
+    (sourceIds) => this.runUpdate(sourceIds),
+    (run) => this.recordRun(run)
+  );
+  private runHistory: RunHistory;
+  private webSubHub: WebSubHub | null;
+  private webhooks: WebhookDispatcher;
+  private chatDelivery: ChatDelivery;
+  private digests: DigestStore;
+  private digestInProgress: Promise<Digest | null> | null = null;
+  private listRegistry: ListRegistry;
+  /** Serializes list changes, each of which rewrites the registry. */
+  private listChanges: Promise<unknown> = Promise.resolve();
+  private publishListeners = new Set<(items: PublishedItem[]) => void>();
+  private metrics = new MetricsRegistry();
+  private tweetsFetched = this.metrics.counter(
+    'twitter_rss_tweets_fetched_total',
+    'Tweets returned by Twitter per list or source'
+  );
+  private tweetsFiltered = this.metrics.counter(
+    'twitter_rss_tweets_filtered_total',
+    'New tweets dropped by filters per list or source'
+  );
+  private tweetsPublished = this.metrics.counter(
+    'twitter_rss_tweets_published_total',
+    'New tweets added to the feeds per list or source'
+  );
+  private lastPublished = this.metrics.gauge(
+    'twitter_rss_source_last_published_timestamp_seconds',
+    'When a list or source last published a new tweet'
+  );
+  private lastSuccess = this.metrics.gauge(
+    'twitter_rss_source_last_success_timestamp_seconds',
+    'When a list or source was last fetched without error'
+  );
+  private fetchErrors = this.metrics.counter(
+    'twitter_rss_fetch_errors_total',
+    'Failed fetches per list or source and error type'
+  );
+  private runsTotal = this.metrics.counter(
+    'twitter_rss_runs_total',
+    'Finished update runs by status'
+  );
+  private runDuration = this.metrics.histogram(
+    'twitter_rss_run_duration_seconds',
+    'Duration of update runs by status',
+    RUN_DURATION_BUCKETS
+  );
+  private authenticated = this.metrics.gauge(
+    'twitter_rss_authenticated',
+    'Whether the Twitter session is logged in (1) or not (0)'
+  );
+  private feedItems = this.metrics.gauge(
+    'twitter_rss_feed_items',
+    'Items in the feed item store'
+  );
+  private feedSize = this.metrics.gauge(
+    'twitter_rss_feed_size_bytes',
+    'Size of the combined feed per format'
+  );
+  private initialRunTimeout: NodeJS.Timeout | null = null;
+  private itemStore: FeedItemStore;
+  private tweetFilter: TweetFilter;
+  private requests: RequestPolicy;
+  private sourceFailures = new Map<string, SourceFailureStats>();
 
   capabilityDescription =
-    'Twitter RSS service that monitors Twitter lists and generates RSS feeds.';
+    'Twitter RSS service that monitors Twitter lists, user timelines and searches and generates RSS feeds.';
 
-  constructor(protected runtime: IAgentRuntime) {
+  constructor(
+    protected runtime: IAgentRuntime,
+    fetcher?: TweetFetcher
+  ) {
     super(runtime);
-    this.scraper = new Scraper();
+    this.fetcher = fetcher ?? createTweetFetcher((key) => this.getConfig(key));
+    const outputDir = (this.getConfig('RSS_OUTPUT_DIR', './rss-feeds') as string);
+    const stateDir = this.getConfig('RSS_STATE_DIR', DEFAULT_STATE_DIR) as string;
+    this.outputDir = outputDir;
+    this.stateDir = stateDir;
+    this.itemStore = FeedItemStore.fromStateDir(stateDir);
+    this.session = TwitterSessionStore.fromStateDir(
+      stateDir,
+      this.getConfig('TWITTER_COOKIES_FILE')
+    );
+    this.tweetFilter = TweetFilter.fromStateDir(
+      stateDir,
+      this.getConfig('RSS_FILTERS_FILE')
+    );
+    const retentionDays =
+      parseInt(
+        this.getConfig('PROCESSED_TWEET_RETENTION_DAYS', '30') as string
+      ) || 30;
+    this.processedTweetIds = new ProcessedTweetIndex(stateDir, {
+      maxAgeMs: retentionDays * 24 * 60 * 60 * 1000,
+      maxEntries:
+        parseInt(
+          this.getConfig('PROCESSED_TWEET_MAX_ENTRIES', '10000') as string
+        ) || 10000,
+    });
+    this.metrics.onCollect(() => this.collectMetrics(outputDir));
+    this.runHistory = RunHistory.fromStateDir(
+      stateDir,
+      parseInt(this.getConfig('RSS_RUN_HISTORY_SIZE', '50') as string) || 50
+    );
+    this.webSubHub =
+      this.getConfig('WEBSUB_BUILTIN_HUB') === 'true'
+        ? WebSubHub.fromStateDir(stateDir)
+        : null;
+    this.webhooks = WebhookDispatcher.fromStateDir(
+      stateDir,
+      {
+        maxRetries: parseInt(
+          this.getConfig('WEBHOOK_MAX_RETRIES', '3') as string
+        ),
+        retryDelayMs: parseInt(
+          this.getConfig('WEBHOOK_RETRY_DELAY_MS', '5000') as string
+        ),
+      },
+      this.getConfig('RSS_WEBHOOKS_FILE')
+    );
+    this.chatDelivery = ChatDelivery.fromStateDir(
+      stateDir,
+      (target, content) => this.runtime.sendMessageToTarget(target, content),
+      {
+        maxPerHour:
+          parseInt(
+            this.getConfig('CHAT_DELIVERY_MAX_PER_HOUR', '10') as string
+          ) || 10,
+        describeSource: (sourceId) =>
+          this.getSources().find((source) => source.id === sourceId)?.name ??
+          sourceId,
+      },
+      this.getConfig('RSS_CHAT_CHANNELS_FILE')
+    );
+    this.digests = DigestStore.fromStateDir(stateDir);
+    this.listRegistry = ListRegistry.fromStateDir(
+      stateDir,
+      this.getConfig('RSS_LISTS_FILE')
+    );
+    this.onItemsPublished((items) => {
+      this.chatDelivery
+        .enqueue(items)
+        .catch((error) => logger.error('Failed to deliver to chat:', error));
+    });
+    this.requests = new RequestPolicy({
+      maxRetries: parseInt(this.getConfig('FETCH_MAX_RETRIES', '3') as string),
+      minIntervalMs: parseInt(
+        this.getConfig('FETCH_REQUEST_INTERVAL_MS', '2000') as string
+      ),
+      budget: parseInt(this.getConfig('FETCH_REQUEST_BUDGET', '200') as string),
+      maxRateLimitWaitMs:
+        parseInt(
+          this.getConfig('FETCH_RATE_LIMIT_MAX_WAIT_SECONDS', '300') as string
+        ) * 1000,
+    });
     this.initializeLists();
   }
 
@@ -98,12 +275,318 @@ export class TwitterRSSService extends Service {
   }
 
   private initializeLists(): void {
-    const lists = this.getConfig('TWITTER_LISTS');
-    const listIds = lists ? lists.split(',') : [];
-    this.twitterLists = listIds.map((id) => ({
-      listId: id.trim(),
-      name: `List ${id.trim()}`,
-    }));
+    this.twitterLists = parseTwitterLists(this.getConfig('TWITTER_LISTS'));
+    this.extraSources = [
+      ...parseTwitterUsers(this.getConfig('TWITTER_USERS')),
+      ...parseTwitterSearches(this.getConfig('TWITTER_SEARCHES')),
+    ];
+  }
+
+  getLists(): TwitterListConfig[] {
+    return [...this.twitterLists];
+  }
+
+  /**
+   * Picks up changes to the list registry, which replaces `TWITTER_LISTS`
+   * once it exists, and reschedules updates when the lists changed.
+   */
+  private async reloadLists(): Promise<void> {
+    if (!(await this.listRegistry.load())) return;
+    this.twitterLists =
+      this.listRegistry.lists ??
+      parseTwitterLists(this.getConfig('TWITTER_LISTS'));
+    if (this.schedulerStarted) this.scheduleTasks();
+  }
+
+  /**
+   * Starts monitoring a list, given by URL or ID, after fetching a sample
+   * of it to check that it exists and is readable. Named `List <id>` unless
+   * `name` is given.
+   */
+  async addList(
+    reference: string,
+    name?: string,
+    changedBy?: string
+  ): Promise<TwitterListConfig> {
+    const listId = this.resolveListReference(reference);
+    if (this.twitterLists.some((list) => list.listId === listId)) {
+      throw new Error(`List ${listId} is already monitored`);
+    }
+    if (!(await this.ensureAuthenticated())) {
+      throw new Error('Twitter authentication required to check the list');
+    }
+    try {
+      await this.fetcher.fetchListTweets(listId, 1);
+    } catch (error) {
+      throw new Error(`Could not read list ${listId}: ${errorMessage(error)}`);
+    }
+
+    const list = { listId, name: name?.trim() || `List ${listId}` };
+    await this.changeLists((lists) => [
+      ...lists,
+      { ...list, updatedBy: changedBy, updatedAt: new Date().toISOString() },
+    ]);
+    return list;
+  }
+
+  /** Stops monitoring a list, given by URL or ID. Its items stay stored. */
+  async removeList(reference: string): Promise<TwitterListConfig> {
+    const listId = this.resolveListReference(reference);
+    const list = this.findList(listId);
+    await this.changeLists((lists) =>
+      lists.filter((entry) => entry.listId !== listId)
+    );
+    return list;
+  }
+
+  /** Renames a monitored list, given by URL or ID. */
+  async renameList(
+    reference: string,
+    name: string,
+    changedBy?: string
+  ): Promise<TwitterListConfig> {
+    const listId = this.resolveListReference(reference);
+    this.findList(listId);
+    if (!name.trim()) throw new Error('A new name is required');
+    const renamed = { listId, name: name.trim() };
+    await this.changeLists((lists) =>
+      lists.map((entry) =>
+        entry.listId === listId
+          ? { ...renamed, updatedBy: changedBy, updatedAt: new Date().toISOString() }
+          : entry
+      )
+    );
+    return renamed;
+  }
+
+  private resolveListReference(reference: string): string {
+    const listId = parseListReference(reference);
+    if (!listId) {
+      throw new Error(`"${reference}" is not a Twitter list URL or ID`);
+    }
+    return listId;
+  }
+
+  private findList(listId: string): TwitterListConfig {
+    const list = this.twitterLists.find((entry) => entry.listId === listId);
+    if (!list) throw new Error(`List ${listId} is not monitored`);
+    return list;
+  }
+
+  /**
+   * Applies a change to the monitored lists and writes every list to the
+   * registry, which from then on replaces `TWITTER_LISTS`.
+   */
+  private changeLists(
+    change: (lists: ManagedList[]) => ManagedList[]
+  ): Promise<void> {
+    const next = this.listChanges.then(async () => {
+      // Start from the registry as it is on disk, in case it was edited.
+      await this.reloadLists();
+      const current = this.twitterLists.map((list) => ({
+        ...this.listRegistry.get(list.listId),
+        listId: list.listId,
+        name: list.name || `List ${list.listId}`,
+      }));
+      const lists = change(current);
+      await this.listRegistry.save(lists);
+      this.twitterLists = lists.map(({ listId, name }) => ({ listId, name }));
+      if (this.schedulerStarted) this.scheduleTasks();
+      logger.info(
+        `Monitoring ${lists.length} Twitter lists: ${lists
+          .map((list) => list.listId)
+          .join(', ')}`
+      );
+    });
+    this.listChanges = next.catch(() => {});
+    return next;
+  }
+
+  /** Proxy carrying Twitter traffic, or null when connecting directly. */
+  getProxyStatus(): ProxyStatus | null {
+    return this.fetcher.proxyStatus?.() ?? null;
+  }
+
+  /** Pipeline metrics, rendered by the server at `/metrics`. */
+  getMetrics(): MetricsRegistry {
+    return this.metrics;
+  }
+
+  private async collectMetrics(outputDir: string): Promise<void> {
+    this.authenticated.set({}, this.isLoggedIn ? 1 : 0);
+    this.feedItems.set({}, this.itemStore.size);
+    this.lastSuccess.reset();
+    for (const [source, stats] of this.sourceFailures) {
+      if (stats.lastSuccessAt) {
+        this.lastSuccess.set({ source }, Date.parse(stats.lastSuccessAt) / 1000);
+      }
+    }
+    for (const format of FEED_FORMAT_NAMES) {
+      try {
+        const stats = await fs.stat(
+          path.join(outputDir, feedFilename(undefined, format))
+        );
+        this.feedSize.set({ format }, stats.size);
+      } catch {
+        this.feedSize.set({ format }, 0);
+      }
+    }
+  }
+
+  private async recordRun(run: UpdateRun<UpdateResult>): Promise<void> {
+    this.runsTotal.inc({ status: run.status });
+    this.runDuration.observe(
+      { status: run.status },
+      (run.durationMs ?? 0) / 1000
+    );
+    await this.runHistory.record(run);
+    if (run.status === 'succeeded' && run.result) {
+      // Retries can take minutes; they must not hold up the next run.
+      void this.webhooks.dispatch(run.id, run.result.published);
+    }
+  }
+
+  /**
+   * Readiness checks behind `/health/ready`: the scheduler is running, the
+   * Twitter session is logged in, the last successful run is recent for the
+   * schedule, the output and state directories are writable and no source
+   * keeps failing.
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    const checks: Record<string, HealthCheck> = {
+      scheduler: this.schedulerStarted
+        ? pass('Scheduler running')
+        : fail('Scheduler not started'),
+      authentication: this.isLoggedIn
+        ? pass('Twitter session logged in')
+        : fail('Twitter session not logged in'),
+      lastRun: await this.checkLastRun(),
+      outputDir: await this.checkWritable(this.outputDir),
+      stateDir: await this.checkWritable(this.stateDir),
+      sources: this.checkSources(),
+    };
+    return {
+      ready: Object.values(checks).every((check) => check.status === 'pass'),
+      checks,
+    };
+  }
+
+  private async checkLastRun(): Promise<HealthCheck> {
+    const maxAgeMinutes = Math.round(this.maxRunAgeMs() / 60000);
+    const lastSuccess = (await this.listRuns()).find(
+      (run) => run.status === 'succeeded' && run.finishedAt
+    );
+    const since = lastSuccess
+      ? Date.parse(lastSuccess.finishedAt as string)
+      : this.startedAt;
+    const ageMinutes = Math.round((Date.now() - since) / 60000);
+
+    if (!lastSuccess) {
+      return ageMinutes <= maxAgeMinutes
+        ? pass('No successful run yet since startup')
+        : fail(`No successful run in the ${ageMinutes} minutes since startup`);
+    }
+    return ageMinutes <= maxAgeMinutes
+      ? pass(`Last successful run ${ageMinutes} minutes ago`)
+      : fail(
+          `Last successful run ${ageMinutes} minutes ago, expected within ${maxAgeMinutes} minutes`
+        );
+  }
+
+  /**
+   * How old the last successful run may be: `RSS_READY_MAX_RUN_AGE_MINUTES`,
+   * or twice the longest interval between scheduled runs plus quiet hours.
+   */
+  private maxRunAgeMs(): number {
+    const configured = parseInt(
+      this.getConfig('RSS_READY_MAX_RUN_AGE_MINUTES') as string
+    );
+    if (configured > 0) return configured * 60 * 1000;
+
+    const schedule = this.getUpdateSchedule();
+    const intervals = [schedule.cron, ...Object.values(schedule.sources)].map(
+      (expression) => scheduleIntervalMs(expression) ?? 0
+    );
+    return (
+      2 * Math.max(60 * 60 * 1000, ...intervals) +
+      quietHoursDurationMs(schedule.quietHours)
+    );
+  }
+
+  private async checkWritable(dir: string): Promise<HealthCheck> {
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.access(dir, fs.constants.W_OK);
+      return pass(`${dir} is writable`);
+    } catch (error) {
+      return fail(`${dir} is not writable: ${errorMessage(error)}`);
+    }
+  }
+
+  private checkSources(): HealthCheck {
+    const threshold =
+      parseInt(
+        this.getConfig('RSS_READY_MAX_CONSECUTIVE_FAILURES', '3') as string
+      ) || 3;
+    const failing = [...this.sourceFailures]
+      .filter(([, stats]) => stats.consecutiveFailures >= threshold)
+      .map(([sourceId, stats]) => `${sourceId} (${stats.lastError})`);
+    return failing.length === 0
+      ? pass('No source is failing repeatedly')
+      : fail(
+          `Failed ${threshold} or more consecutive runs: ${failing.join(', ')}`
+        );
+  }
+
+  /** Fetch failure counts keyed by list or source ID. */
+  getSourceFailures(): Record<string, SourceFailureStats> {
+    return Object.fromEntries(this.sourceFailures);
+  }
+
+  /** Cron schedule of every source, from the scheduling settings. */
+  getUpdateSchedule(): UpdateSchedule {
+    return parseUpdateSchedule((key) => this.getConfig(key), this.getSources());
+  }
+
+  /** The built-in WebSub hub, when `WEBSUB_BUILTIN_HUB` is enabled. */
+  getWebSubHub(): WebSubHub | null {
+    return this.webSubHub;
+  }
+
+  /** Hub advertised in the feeds: `WEBSUB_HUB_URL`, else the built-in hub. */
+  getHubUrl(): string | null {
+    const external = this.getConfig('WEBSUB_HUB_URL');
+    if (external) return external;
+    return this.webSubHub ? `${this.getPublicUrl()}/websub` : null;
+  }
+
+  /** Feed URLs of the combined feed and of `sources`, in every format. */
+  getFeedTopics(sources: TweetSource[] = this.getSources()): WebSubTopic[] {
+    const publicUrl = this.getPublicUrl();
+    return FEED_FORMAT_NAMES.flatMap((format) => {
+      const { contentType } = FEED_FORMATS[format];
+      return [
+        {
+          url: `${publicUrl}${feedRoute(format)}`,
+          filePath: path.join(this.outputDir, feedFilename(undefined, format)),
+          contentType,
+        },
+        ...sources.map((source) => ({
+          url: `${publicUrl}${sourceFeedRoute(format, source)}`,
+          sourceId: source.id,
+          filePath: path.join(
+            this.outputDir,
+            sourceFeedFilename(source, format)
+          ),
+          contentType,
+        })),
+      ];
+    });
+  }
+
+  /** Every monitored source: lists first, then user timelines and searches. */
+  getSources(): TweetSource[] {
+    return [...this.twitterLists.map(listSource), ...this.extraSources];
   }
 
   static async start(runtime: IAgentRuntime) {
@@ -122,151 +605,422 @@ export class TwitterRSSService extends Service {
   }
 
   async initialize(): Promise<void> {
+    await migrateStateFiles(this.outputDir, this.stateDir);
+    await this.reloadLists();
+
+    if (this.fetcher.requiresLogin && !this.getCredentials()) {
+      logger.warn(
+        'Twitter credentials not configured, Twitter RSS service will be disabled'
+      );
+      return;
+    }
+
+    await this.authenticate();
+    await this.loadProcessedTweetIds();
+    await this.itemStore.load();
+    await this.runHistory.load();
+    // Scheduled updates re-authenticate when the session is missing or has
+    // expired, so the scheduler runs even if this first login failed.
+    this.startScheduler();
+    this.chatDelivery.start();
+  }
+
+  private getCredentials(): [string, string, string] | null {
+    const username = this.getConfig('TWITTER_USERNAME');
+    const password = this.getConfig('TWITTER_PASSWORD');
+    const email = this.getConfig('TWITTER_EMAIL');
+    return username && password && email ? [username, password, email] : null;
+  }
+
+  /**
+   * Reuses the saved session when it is still valid and logs in with the
+   * configured credentials otherwise, saving the new session cookies.
+   */
+  private async authenticate(): Promise<boolean> {
+    this.lastLoginAttempt = Date.now();
     try {
-      const username = this.getConfig('TWITTER_USERNAME');
-      const password = this.getConfig('TWITTER_PASSWORD');
-      const email = this.getConfig('TWITTER_EMAIL');
-      if (!username || !password || !email) {
-        logger.warn(
-          'Twitter credentials not configured, Twitter RSS service will be disabled'
-        );
-        return;
+      if (!this.fetcher.requiresLogin) {
+        this.isLoggedIn = await this.fetcher.isLoggedIn();
+        return this.isLoggedIn;
+      }
+
+      if (await this.restoreSession()) {
+        this.isLoggedIn = true;
+        return true;
+      }
+
+      const credentials = this.getCredentials();
+      if (!credentials) {
+        this.isLoggedIn = false;
+        return false;
       }
 
       logger.info('Attempting Twitter authentication...');
 
-      const proxy = this.getConfig('PROXY_URL');
+      const proxy = this.getProxyStatus();
       if (proxy) {
-        logger.info('Using proxy for Twitter connection:', proxy);
+        logger.info('Using proxy for Twitter connection:', proxy.current);
       }
 
-      await this.scraper.login(username, password, email);
+      await this.fetcher.login(...credentials);
 
-      this.isLoggedIn = await this.scraper.isLoggedIn();
+      this.isLoggedIn = await this.fetcher.isLoggedIn();
 
       if (this.isLoggedIn) {
         logger.info('✅ Twitter authentication successful');
-        await this.loadProcessedTweetIds();
-        this.startScheduler();
+        await this.saveSession();
       } else {
         logger.warn(
           '❌ Twitter authentication failed - service will run in limited mode'
         );
       }
     } catch (error: any) {
+      this.isLoggedIn = false;
       logger.error('❌ Twitter authentication failed:', error.message);
       logger.warn('Twitter RSS service will run in limited mode. Consider:');
       logger.warn('1. Using a proxy (set PROXY_URL in .env)');
       logger.warn('2. Trying again later (Twitter may be rate limiting)');
       logger.warn('3. Checking if your IP is blocked by Twitter/Cloudflare');
     }
+    return this.isLoggedIn;
+  }
+
+  /** Loads the saved session, deleting it once Twitter rejects it. */
+  private async restoreSession(): Promise<boolean> {
+    const cookies = await this.session.load();
+    if (!cookies || !this.fetcher.setCookies) return false;
+
+    try {
+      await this.fetcher.setCookies(cookies);
+      if (await this.fetcher.isLoggedIn()) {
+        logger.info('✅ Restored saved Twitter session');
+        return true;
+      }
+    } catch (error) {
+      if (!isAuthError(error)) throw error;
+    }
+    logger.info('Saved Twitter session has expired, logging in again');
+    await this.session.clear();
+    return false;
+  }
+
+  private async saveSession(): Promise<void> {
+    if (!this.fetcher.getCookies) return;
+    try {
+      await this.session.save(await this.fetcher.getCookies());
+    } catch (error) {
+      logger.error('Failed to save Twitter session:', error);
+    }
+  }
+
+  /**
+   * Logs in again when the session was lost, at most once per
+   * `LOGIN_RETRY_INTERVAL_MS` so a failing login cannot hammer Twitter.
+   */
+  private async ensureAuthenticated(): Promise<boolean> {
+    if (this.isLoggedIn) return true;
+    if (Date.now() - this.lastLoginAttempt < LOGIN_RETRY_INTERVAL_MS) {
+      return false;
+    }
+    logger.info('Twitter session not available, re-authenticating...');
+    return this.authenticate();
+  }
+
+  /** Drops the session after an auth error so the next update logs in again. */
+  private handleFetchError(error: any): void {
+    if (this.isLoggedIn && isAuthError(error)) {
+      logger.warn(
+        'Twitter session is no longer valid, re-authenticating on the next update'
+      );
+      this.isLoggedIn = false;
+      this.lastLoginAttempt = 0;
+    }
   }
 
   async stop() {
     logger.info('*** Stopping Twitter RSS service instance ***');
-    if (this.schedulerInterval) {
-      clearInterval(this.schedulerInterval);
-      this.schedulerInterval = null;
+    this.scheduledTasks.forEach((task) => task.stop());
+    this.scheduledTasks = [];
+    this.schedulerStarted = false;
+    if (this.initialRunTimeout) {
+      clearTimeout(this.initialRunTimeout);
+      this.initialRunTimeout = null;
     }
+    this.webhooks.stop();
+    this.chatDelivery.stop();
     await this.saveProcessedTweetIds();
   }
 
   private async loadProcessedTweetIds(): Promise<void> {
     try {
-      const outputDir = (this.getConfig('RSS_OUTPUT_DIR', './rss-feeds') as string);
-      const cacheFile = path.join(outputDir, 'processed_tweets.json');
-      const data = await fs.readFile(cacheFile, 'utf-8');
-      const processedIds = JSON.parse(data);
-      this.processedTweetIds = new Set(processedIds);
-    } catch {
-      this.processedTweetIds = new Set();
+      await this.processedTweetIds.load();
+    } catch (error) {
+      logger.error('Failed to load processed tweet IDs:', error);
     }
   }
 
   private async saveProcessedTweetIds(): Promise<void> {
-    try {
-      const outputDir = (this.getConfig('RSS_OUTPUT_DIR', './rss-feeds') as string);
-      await fs.mkdir(outputDir, { recursive: true });
-      const cacheFile = path.join(outputDir, 'processed_tweets.json');
-      const processedIds = Array.from(this.processedTweetIds);
-      await fs.writeFile(cacheFile, JSON.stringify(processedIds, null, 2));
-    } catch (error) {
-      logger.error('Failed to save processed tweet IDs:', error);
-    }
+    await this.processedTweetIds.save();
   }
 
+  /**
+   * Schedules updates and digests, and the initial update unless
+   * `RSS_SKIP_INITIAL_RUN`.
+   */
   private startScheduler(): void {
-    if (!this.isLoggedIn) {
+    this.schedulerStarted = true;
+    this.scheduleTasks();
+
+    if (this.getUpdateSchedule().skipInitialRun) {
+      logger.info('Skipping initial RSS update (RSS_SKIP_INITIAL_RUN)');
+      return;
+    }
+    this.initialRunTimeout = setTimeout(() => {
+      this.initialRunTimeout = null;
+      this.runScheduledUpdate('initial');
+    }, 5000);
+  }
+
+  /**
+   * (Re)creates one cron task per distinct expression, covering the sources
+   * that share it, plus the digest task. Called again when lists change.
+   */
+  private scheduleTasks(): void {
+    this.scheduledTasks.forEach((task) => task.stop());
+    this.scheduledTasks = [];
+    const schedule = this.getUpdateSchedule();
+    schedule.errors.forEach((error) => logger.warn(error));
+
+    const groups = new Map<string, string[]>();
+    for (const [sourceId, expression] of Object.entries(schedule.sources)) {
+      groups.set(expression, [...(groups.get(expression) ?? []), sourceId]);
+    }
+    for (const [expression, sourceIds] of groups) {
+      logger.info(
+        `Scheduling RSS updates for ${sourceIds.join(', ')} at "${expression}"`
+      );
+      this.scheduledTasks.push(
+        cron.schedule(expression, () => {
+          this.runScheduledUpdate('scheduled', sourceIds);
+        })
+      );
+    }
+
+    const digestSchedule = this.getDigestSchedule();
+    if (digestSchedule) {
+      logger.info(`Scheduling RSS digests at "${digestSchedule}"`);
+      this.scheduledTasks.push(
+        cron.schedule(digestSchedule, () => {
+          this.generateDigest().catch((error) =>
+            logger.error('Scheduled digest failed:', error)
+          );
+        })
+      );
+    } else if (this.getConfig('RSS_DIGEST_SCHEDULE')) {
       logger.warn(
-        'Skipping RSS scheduler - Twitter authentication not available'
+        `Ignoring invalid RSS_DIGEST_SCHEDULE "${this.getConfig('RSS_DIGEST_SCHEDULE')}"`
       );
+    }
+  }
+
+  /** Updates `sourceIds`, or every source, unless it is quiet hours. */
+  private runScheduledUpdate(
+    trigger: 'scheduled' | 'initial',
+    sourceIds?: string[]
+  ): void {
+    const label = trigger === 'initial' ? 'Initial' : 'Scheduled';
+    if (isQuietTime(this.getUpdateSchedule().quietHours)) {
+      logger.info(`${label} RSS update skipped during quiet hours`);
       return;
     }
 
-    const intervalMinutes = parseInt(
-      (this.getConfig('RSS_UPDATE_INTERVAL', '30') as string)
+    const { run, joined, done } = this.requestUpdate(trigger, sourceIds);
+    if (joined) {
+      logger.info(`${label} RSS update joined run ${run.id}`);
+      return;
+    }
+    logger.info(`${label} RSS update ${run.status} as run ${run.id}`);
+    done.then(
+      (result) =>
+        logger.info(
+          `${label} update completed: ${result.totalTweets} tweets processed`
+        ),
+      (error) => logger.error(`${label} RSS update failed:`, error)
     );
-    const intervalMs = intervalMinutes * 60 * 1000;
+  }
+
+  /**
+   * Starts an update run, or joins the one in flight or queued, without
+   * waiting for it. Runs never overlap.
+   */
+  requestUpdate(
+    trigger: RunTrigger,
+    sourceIds?: string[]
+  ): TriggeredRun<UpdateResult> {
+    return this.runs.trigger(trigger, sourceIds);
+  }
+
+  /** A queued, running or recorded run by ID. */
+  async getRun(runId: string): Promise<RunRecord | undefined> {
+    await this.runHistory.ensureLoaded();
+    const run = this.runs.get(runId);
+    return run ? toRunRecord(run) : this.runHistory.get(runId);
+  }
+
+  /** Queued and running runs, then the recorded history, newest first. */
+  async listRuns(limit?: number): Promise<RunRecord[]> {
+    await this.runHistory.ensureLoaded();
+    const pending = this.runs
+      .list()
+      .filter((run) => run.status === 'queued' || run.status === 'running')
+      .map(toRunRecord);
+    return [...pending, ...this.runHistory.list()].slice(0, limit);
+  }
 
-    logger.info(
-      `Starting RSS scheduler with ${intervalMinutes}-minute intervals`
+  getCurrentRun(): UpdateRun<UpdateResult> | null {
+    return this.runs.current();
+  }
+
+  async fetchListTweets(
+    listId: string,
+    maxTweets: number = 50,
+    report: FilterReport = createFilterReport(),
+    runReport?: SourceRunReport
+  ): Promise<TweetData[]> {
+    return this.fetchFromSource(
+      listId,
+      `list ${listId}`,
+      () => this.fetcher.fetchListTweets(listId, maxTweets),
+      report,
+      runReport
     );
+  }
 
-    this.schedulerInterval = setInterval(async () => {
-      try {
-        logger.info('Scheduled RSS update starting...');
-        const result = await this.processAllLists();
-        logger.info(
-          `Scheduled update completed: ${result.totalTweets} tweets processed`
-        );
-      } catch (error) {
-        logger.error('Scheduled RSS update failed:', error);
-      }
-    }, intervalMs);
+  /**
+   * Fetches new tweets from a list, user timeline or search. Every source
+   * goes through the same transform and filter pipeline.
+   */
+  async fetchSourceTweets(
+    source: TweetSource,
+    maxTweets: number = 50,
+    report: FilterReport = createFilterReport(),
+    runReport?: SourceRunReport
+  ): Promise<TweetData[]> {
+    if (source.type === 'list') {
+      return this.fetchListTweets(source.query, maxTweets, report, runReport);
+    }
 
-    setTimeout(async () => {
-      try {
-        logger.info('Running initial RSS update...');
-        const result = await this.processAllLists();
-        logger.info(
-          `Initial update completed: ${result.totalTweets} tweets processed`
-        );
-      } catch (error) {
-        logger.error('Initial RSS update failed:', error);
-      }
-    }, 5000);
+    return this.fetchFromSource(
+      source.id,
+      `${source.type} source ${source.name}`,
+      () =>
+        source.type === 'user'
+          ? this.fetcher.fetchUserTweets(source.query, maxTweets)
+          : this.fetcher.searchTweets(source.query, maxTweets),
+      report,
+      runReport
+    );
   }
 
-  async fetchListTweets(listId: string, maxTweets: number = 50): Promise<TweetData[]> {
+  /**
+   * Runs a fetch under the request policy, so it is retried with backoff,
+   * waits out rate limits and counts against the per-run request budget.
+   * Failures are logged and counted per source; the source yields no tweets.
+   */
+  private async fetchFromSource(
+    sourceId: string,
+    label: string,
+    fetch: () => Promise<RawTweetData[]>,
+    report: FilterReport,
+    runReport?: SourceRunReport
+  ): Promise<TweetData[]> {
     try {
-      const tweets = await this.scraper.fetchListTweets(listId, maxTweets);
-      const filtered = (tweets as RawTweetData[]).filter(
-        (tweet: RawTweetData) => tweet && tweet.id && !this.processedTweetIds.has(tweet.id)
+      const tweets = await this.requests.run(`Fetching ${label}`, fetch);
+      if (runReport) runReport.fetched = tweets.length;
+      const processed = await this.processFetchedTweets(
+        tweets,
+        sourceId,
+        report
       );
+      this.recordFetchResult(sourceId);
+      return processed;
+    } catch (error) {
+      logger.error(`Failed to fetch tweets from ${label}:`, error);
+      if (runReport) runReport.error = errorMessage(error);
+      this.fetchErrors.inc({ source: sourceId, type: fetchErrorType(error) });
+      this.recordFetchResult(sourceId, error);
+      this.handleFetchError(error);
+      return [];
+    }
+  }
+
+  private recordFetchResult(sourceId: string, error?: any): void {
+    const stats = this.sourceFailures.get(sourceId) ?? {
+      consecutiveFailures: 0,
+      totalFailures: 0,
+      lastError: null,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+    };
+    if (error === undefined) {
+      stats.consecutiveFailures = 0;
+      stats.lastSuccessAt = new Date().toISOString();
+    } else {
+      stats.consecutiveFailures++;
+      stats.totalFailures++;
+      stats.lastError = errorMessage(error);
+      stats.lastFailureAt = new Date().toISOString();
+    }
+    this.sourceFailures.set(sourceId, stats);
+  }
 
-      if (this.getConfig('FETCH_TWEET_THREADS') === 'true') {
-        for (const tweet of filtered) {
-          try {
-            const full = await this.scraper.getTweet(tweet.id as string);
-            if (full && Array.isArray(full.thread)) {
-              tweet.thread = full.thread;
-            }
-          } catch (err: any) {
-            logger.warn(
-              `Failed to fetch thread for tweet ${tweet.id}:`,
-              err.message
-            );
+  /**
+   * Drops already processed tweets, optionally attaches threads, then
+   * transforms and filters the rest for `sourceId`.
+   */
+  private async processFetchedTweets(
+    tweets: RawTweetData[],
+    sourceId: string,
+    report: FilterReport
+  ): Promise<TweetData[]> {
+    this.itemStore.addToSource(
+      sourceId,
+      tweets
+        .filter((tweet) => tweet?.id && this.itemStore.has(tweet.id))
+        .map((tweet) => tweet.id as string)
+    );
+    const filtered = tweets.filter(
+      (tweet: RawTweetData) =>
+        tweet &&
+        tweet.id &&
+        !this.processedTweetIds.has(
+          tweet.id,
+          tweet.timestamp ? parseTweetTimestamp(tweet.timestamp) : undefined
+        )
+    );
+
+    if (this.getConfig('FETCH_TWEET_THREADS') === 'true') {
+      for (const tweet of filtered) {
+        try {
+          const full = await this.requests.run(
+            `Fetching thread for tweet ${tweet.id}`,
+            () => this.fetcher.getTweet(tweet.id as string)
+          );
+          if (full && Array.isArray(full.thread)) {
+            tweet.thread = full.thread;
           }
+        } catch (err: any) {
+          logger.warn(
+            `Failed to fetch thread for tweet ${tweet.id}:`,
+            err.message
+          );
         }
       }
-
-      return filtered
-        .map(this.transformTweet.bind(this))
-        .filter(this.applyFilters.bind(this));
-    } catch (error) {
-      logger.error(`Failed to fetch tweets from list ${listId}:`, error);
-      return [];
     }
+
+    return filtered
+      .map((tweet) => this.transformTweet(tweet))
+      .filter((tweet) => this.applyFilters(tweet, sourceId, report));
   }
 
   private transformTweet(tweet: RawTweetData): TweetData {
@@ -282,18 +1036,32 @@ export class TwitterRSSService extends Service {
         name: tweet.name || 'Unknown User',
         verified: tweet.isVerified || false,
       },
-      createdAt: new Date(tweet.timestamp || Date.now()),
+      createdAt: new Date(
+        tweet.timestamp ? parseTweetTimestamp(tweet.timestamp) : Date.now()
+      ),
       url: `https://twitter.com/${tweet.username || 'unknown'}/status/${tweet.id}`,
       isRetweet: tweet.isRetweet || false,
       isReply: tweet.isReply || false,
+      lang: tweet.lang,
       replyToTweetId: tweet.inReplyToStatusId,
-      retweetedTweet: tweet.retweetedStatus,
-      quotedTweet: tweet.quotedStatus,
-      media:
-        tweet.photos?.map((photo: any) => ({
+      retweetedTweet: tweet.retweetedStatus?.id
+        ? this.transformTweet(tweet.retweetedStatus)
+        : undefined,
+      quotedTweet: tweet.quotedStatus?.id
+        ? this.transformTweet(tweet.quotedStatus)
+        : undefined,
+      media: [
+        ...(tweet.photos?.map((photo) => ({
           type: 'image',
           url: photo.url,
-        })) || [],
+          alt: photo.alt_text,
+        })) || []),
+        ...(tweet.videos?.map((video) => ({
+          type: 'video',
+          url: video.url || video.preview,
+          preview: video.preview,
+        })) || []),
+      ],
       metrics: {
         likes: tweet.likes || 0,
         retweets: tweet.retweets || 0,
@@ -305,71 +1073,142 @@ export class TwitterRSSService extends Service {
     };
   }
 
-  private applyFilters(tweet: TweetData): boolean {
+  private applyFilters(
+    tweet: TweetData,
+    sourceId?: string,
+    report?: FilterReport
+  ): boolean {
+    const droppedBy = this.findDroppingFilter(tweet, sourceId);
+    if (report) {
+      recordFilterResult(report, droppedBy);
+    }
+    return droppedBy === null;
+  }
+
+  /**
+   * Returns the name of the first built-in setting or rule-file rule that
+   * drops the tweet, or null when it passes every filter.
+   */
+  private findDroppingFilter(
+    tweet: TweetData,
+    sourceId?: string
+  ): string | null {
     if (this.getConfig('FILTER_RETWEETS') === 'true' && tweet.isRetweet) {
-      return false;
+      return 'FILTER_RETWEETS';
     }
 
     if (this.getConfig('FILTER_REPLIES') === 'true' && tweet.isReply) {
-      return false;
+      return 'FILTER_REPLIES';
     }
 
     const minLength = parseInt(
       (this.getConfig('MIN_TWEET_LENGTH', '0') as string)
     );
     if (tweet.text.length < minLength) {
-      return false;
+      return 'MIN_TWEET_LENGTH';
     }
 
-    return true;
+    return this.tweetFilter.evaluate(tweet, sourceId);
   }
 
-  async generateRSSFeed(tweets: TweetData[]): Promise<string> {
-    const feed: RSSFeed = {
-      title: this.getConfig(
-        'RSS_FEED_TITLE',
-        'Twitter Lists RSS Feed'
-      ) as string,
+  /** Builds the format-neutral model of the combined feed or a source feed. */
+  buildFeed(tweets: TweetData[], source?: TweetSource): FeedModel {
+    const title = this.getConfig(
+      'RSS_FEED_TITLE',
+      'Twitter Lists RSS Feed'
+    ) as string;
+    const items = tweets.map((tweet) => this.transformToFeedItem(tweet));
+    const updated = items.reduce(
+      (latest: Date | null, item) =>
+        !latest || item.published > latest ? item.published : latest,
+      null
+    );
+
+    const hub = this.getHubUrl();
+
+    if (source) {
+      return {
+        title: `${title}: ${source.name}`,
+        description: sourceDescription(source),
+        link: sourceLink(source),
+        updated: updated || new Date(),
+        items,
+        ...(hub && { hub }),
+      };
+    }
+
+    return {
+      title,
       description: this.getConfig(
         'RSS_FEED_DESCRIPTION',
         'Aggregated tweets from monitored Twitter lists'
       ) as string,
       link: 'https://twitter.com',
-      lastBuildDate: new Date().toUTCString(),
-      items: tweets.map(this.transformToRSSItem.bind(this)),
+      updated: updated || new Date(),
+      items,
+      ...(hub && { hub }),
     };
+  }
+
+  async generateRSSFeed(
+    tweets: TweetData[],
+    source?: TweetSource
+  ): Promise<string> {
+    return this.renderFeed(this.buildFeed(tweets, source), 'rss', source);
+  }
 
-    return this.buildRSSXML(feed);
+  renderFeed(
+    feed: FeedModel,
+    format: FeedFormat,
+    source?: TweetSource
+  ): string {
+    const route = source ? sourceFeedRoute(format, source) : feedRoute(format);
+    return FEED_FORMATS[format].render(feed, `${this.getPublicUrl()}${route}`);
   }
 
-  private transformToRSSItem(tweet: TweetData): RSSItem {
-    let description = tweet.text;
+  /** Base URL the RSS server is reachable at, used for feed self links. */
+  getPublicUrl(): string {
+    const port = this.getConfig('RSS_SERVER_PORT', '3001');
+    const url = this.getConfig('RSS_PUBLIC_URL') || `http://localhost:${port}`;
+    return url.replace(/\/+$/, '');
+  }
 
-    if (tweet.media && tweet.media.length > 0) {
-      description += `\n\nMedia: ${tweet.media.length} attachment(s)`;
+  /** The feed item a tweet is rendered as. */
+  transformToFeedItem(tweet: TweetData): FeedItem {
+    const original = tweet.retweetedTweet || tweet;
+    let content = original.text;
+
+    if (original.quotedTweet) {
+      content += `\n\nQuoting @${original.quotedTweet.author.username}: ${original.quotedTweet.text}`;
     }
 
     if (tweet.metrics) {
-      description += `\n\n❤️ ${tweet.metrics.likes} | 🔄 ${tweet.metrics.retweets} | 💬 ${tweet.metrics.replies}`;
+      content += `\n\n❤️ ${tweet.metrics.likes} | 🔄 ${tweet.metrics.retweets} | 💬 ${tweet.metrics.replies}`;
     }
 
     if (tweet.thread && tweet.thread.length > 0) {
       const replies = tweet.thread
         .map((t) => `@${t.author.username}: ${t.text}`)
         .join('\n');
-      description += `\n\nThread:\n${replies}`;
+      content += `\n\nThread:\n${replies}`;
     }
 
     return {
+      id: tweet.id,
       title: `@${tweet.author.username}: ${tweet.text.substring(0, 100)}${
         tweet.text.length > 100 ? '...' : ''
       }`,
-      description,
+      content,
+      contentHtml: renderTweetHtml(tweet),
+      image: primaryImage(tweet),
       link: tweet.url,
-      pubDate: tweet.createdAt.toUTCString(),
-      guid: tweet.id,
-      author: `${tweet.author.name} (@${tweet.author.username})`,
-      category: tweet.isRetweet
+      published: tweet.createdAt,
+      author: {
+        name: tweet.author.name,
+        username: tweet.author.username,
+        url: `https://twitter.com/${tweet.author.username}`,
+      },
+      categories: tweet.isRetweet
         ? ['retweet']
         : tweet.isReply
         ? ['reply']
@@ -377,64 +1216,233 @@ export class TwitterRSSService extends Service {
     };
   }
 
-  private buildRSSXML(feed: RSSFeed): string {
-    const rssData = {
-      rss: {
-        '@_version': '2.0',
-        '@_xmlns:atom': 'http://www.w3.org/2005/Atom',
-        channel: {
-          title: feed.title,
-          description: feed.description,
-          link: feed.link,
-          lastBuildDate: feed.lastBuildDate,
-          generator: 'ElizaOS Twitter RSS Agent',
-          'atom:link': {
-            '@_href': feed.link,
-            '@_rel': 'self',
-            '@_type': 'application/rss+xml',
-          },
-          item: feed.items.map((item) => ({
-            title: item.title,
-            description: { '#cdata': item.description },
-            link: item.link,
-            pubDate: item.pubDate,
-            guid: {
-              '@_isPermaLink': 'false',
-              '#text': item.guid,
-            },
-            author: item.author,
-            category: item.category,
-          })),
-        },
-      },
-    };
-
-    const builder = new XMLBuilder({
-      ignoreAttributes: false,
-      format: true,
-      cdataPropName: '#cdata',
-    });
-
-    return (
-      '<?xml version="1.0" encoding="UTF-8"?>\n' + builder.build(rssData)
-    );
-  }
-
   async saveRSSFeed(
     rssXML: string,
-    filename: string = 'twitter_lists.xml'
+    filename: string = feedFilename()
   ): Promise<string> {
     const outputDir = (this.getConfig('RSS_OUTPUT_DIR', './rss-feeds') as string);
-    await fs.mkdir(outputDir, { recursive: true });
-
     const filePath = path.join(outputDir, filename);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
     await fs.writeFile(filePath, rssXML, 'utf-8');
 
     return filePath;
   }
 
-  async processAllLists(): Promise<{ totalTweets: number; rssPath: string }> {
-    if (!this.isLoggedIn) {
+  /**
+   * Writes the combined feed, or one source's feed, in every output format.
+   * Returns the path of the RSS file.
+   */
+  async saveFeeds(tweets: TweetData[], source?: TweetSource): Promise<string> {
+    const feed = this.buildFeed(tweets, source);
+    const paths: Partial<Record<FeedFormat, string>> = {};
+    for (const format of FEED_FORMAT_NAMES) {
+      paths[format] = await this.saveRSSFeed(
+        this.renderFeed(feed, format, source),
+        source
+          ? sourceFeedFilename(source, format)
+          : feedFilename(undefined, format)
+      );
+    }
+    return paths.rss as string;
+  }
+
+  /**
+   * Updates every source, or only `sourceIds`, and resolves with the result
+   * of the run this call started or joined.
+   */
+  async processAllLists(
+    sourceIds?: string[],
+    trigger: RunTrigger = 'manual'
+  ): Promise<UpdateResult> {
+    return this.requestUpdate(trigger, sourceIds).done;
+  }
+
+  /**
+   * Registers a listener for the items each run publishes, called once the
+   * feeds are written. Returns a function that removes the listener.
+   */
+  onItemsPublished(listener: (items: PublishedItem[]) => void): () => void {
+    this.publishListeners.add(listener);
+    return () => this.publishListeners.delete(listener);
+  }
+
+  /** Stored items published after `sequence`, oldest first. */
+  async getPublishedItemsSince(sequence: number): Promise<PublishedItem[]> {
+    await this.itemStore.ensureLoaded();
+    return this.itemStore.getPublishedSince(sequence);
+  }
+
+  /** Cron expression of scheduled digests, or null when they are off. */
+  getDigestSchedule(): string | null {
+    return parseDigestSchedule(this.getConfig('RSS_DIGEST_SCHEDULE'));
+  }
+
+  /**
+   * Asks the model for a briefing of the tweets published since the last
+   * digest, grouped by list, and publishes it in the digest feed. The first
+   * digest, and the first after the feed items were reset, covers one
+   * digest interval (a day without a schedule). Resolves with null when
+   * there is nothing new; a call during another one joins it.
+   */
+  generateDigest(): Promise<Digest | null> {
+    this.digestInProgress ??= this.createDigest().finally(() => {
+      this.digestInProgress = null;
+    });
+    return this.digestInProgress;
+  }
+
+  /** Stored digests, newest first. */
+  async listDigests(): Promise<Digest[]> {
+    return this.digests.list();
+  }
+
+  private async createDigest(): Promise<Digest | null> {
+    await this.itemStore.ensureLoaded();
+    let latest = await this.digests.latest();
+    if (latest && latest.sequence > this.itemStore.sequence) {
+      // The item store was reset and numbers items from 1 again, so nothing
+      // would be newer than the last digest.
+      logger.warn(
+        'Feed items were renumbered since the last digest, starting over like the first digest'
+      );
+      latest = undefined;
+    }
+    let items = this.itemStore.getPublishedSince(latest?.sequence ?? 0);
+    if (!latest) {
+      const schedule = this.getDigestSchedule();
+      const windowMs =
+        (schedule && scheduleIntervalMs(schedule)) || 24 * 60 * 60 * 1000;
+      items = items.filter(
+        (item) => item.tweet.createdAt.getTime() > Date.now() - windowMs
+      );
+    }
+    if (items.length === 0) {
+      logger.info('No new tweets for a digest');
+      return null;
+    }
+
+    const groups = groupForDigest(
+      items,
+      this.getSources(),
+      parseInt(this.getConfig('RSS_DIGEST_MAX_TWEETS', '200') as string) || 200
+    );
+    const summary = String(
+      (await this.runtime.useModel(ModelType.TEXT_LARGE, {
+        prompt: buildDigestPrompt(groups),
+      })) ?? ''
+    ).trim();
+    if (!summary) {
+      throw new Error('The model returned an empty digest');
+    }
+
+    const digest: Digest = {
+      id: `digest-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      sequence: Math.max(...items.map((item) => item.sequence)),
+      tweetCount: groups.reduce((sum, group) => sum + group.tweets.length, 0),
+      sources: Object.fromEntries(
+        groups.map((group) => [group.sourceId, group.tweets.length])
+      ),
+      summary,
+    };
+    await this.digests.add(digest);
+    await this.saveDigestFeeds();
+    logger.info(`Published a digest of ${digest.tweetCount} tweets`);
+    return digest;
+  }
+
+  /** Writes the digest feed, one item per stored digest, in every format. */
+  private async saveDigestFeeds(): Promise<void> {
+    const title = this.getConfig(
+      'RSS_FEED_TITLE',
+      'Twitter Lists RSS Feed'
+    ) as string;
+    const publicUrl = this.getPublicUrl();
+    const agentName = this.runtime.character?.name || 'TwitterRSSAgent';
+    const names = new Map(
+      this.getSources().map((source) => [source.id, source.name])
+    );
+    const digests = await this.digests.list();
+    const hub = this.getHubUrl();
+    const feed: FeedModel = {
+      title: `${title}: Digest`,
+      description: 'Briefings of the monitored lists, written by the agent',
+      link: publicUrl,
+      updated: digests[0] ? new Date(digests[0].createdAt) : new Date(),
+      items: digests.map((digest) => ({
+        id: digest.id,
+        title: `Digest of ${digest.tweetCount} ${
+          digest.tweetCount === 1 ? 'tweet' : 'tweets'
+        }`,
+        content: digest.summary,
+        contentHtml: renderDigestHtml(digest.summary),
+        link: `${publicUrl}${digestFeedRoute('rss')}#${digest.id}`,
+        published: new Date(digest.createdAt),
+        author: { name: agentName, username: agentName, url: publicUrl },
+        categories: Object.keys(digest.sources).map(
+          (sourceId) => names.get(sourceId) ?? sourceId
+        ),
+      })),
+      ...(hub && { hub }),
+    };
+    for (const format of FEED_FORMAT_NAMES) {
+      await this.saveRSSFeed(
+        FEED_FORMATS[format].render(
+          feed,
+          `${publicUrl}${digestFeedRoute(format)}`
+        ),
+        digestFeedFilename(format)
+      );
+    }
+  }
+
+  private notifyItemsPublished(items: PublishedItem[]): void {
+    if (items.length === 0) return;
+    for (const listener of this.publishListeners) {
+      try {
+        listener(items);
+      } catch (error) {
+        logger.error('Published items listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Tells WebSub subscribers that the feeds of `sources`, and so the
+   * combined feed, have new items: through `WEBSUB_HUB_URL` and the
+   * built-in hub, whichever are configured, side by side.
+   */
+  private async publishFeedUpdates(sources: TweetSource[]): Promise<void> {
+    if (sources.length === 0) return;
+    const topics = this.getFeedTopics(sources);
+    const externalHub = this.getConfig('WEBSUB_HUB_URL');
+    const hub = this.webSubHub;
+    const results = await Promise.allSettled([
+      externalHub
+        ? publishToHub(
+            externalHub,
+            topics.map((topic) => topic.url)
+          )
+        : undefined,
+      hub
+        ?.distribute(topics, `${this.getPublicUrl()}/websub`)
+        .then((delivered) =>
+          logger.info(`Pushed feed updates to ${delivered} WebSub subscribers`)
+        ),
+    ]);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        logger.error(
+          'Failed to publish feed updates over WebSub:',
+          result.reason
+        );
+      }
+    }
+  }
+
+  /** One update run: fetches the sources, then re-renders the feeds. */
+  private async runUpdate(sourceIds?: string[]): Promise<UpdateResult> {
+    if (!(await this.ensureAuthenticated())) {
       logger.warn(
         'Twitter not authenticated - cannot fetch tweets. Check authentication status.'
       );
@@ -443,42 +1451,148 @@ export class TwitterRSSService extends Service {
       );
     }
 
-    const allTweets: TweetData[] = [];
+    await this.itemStore.ensureLoaded();
+    await this.tweetFilter.load();
+    await this.reloadLists();
+    const sequenceBefore = this.itemStore.sequence;
+
+    const filterReports: Record<string, FilterReport> = {};
+    const sourceReports: Record<string, SourceRunReport> = {};
+    const newTweets: TweetData[] = [];
+    const published: Record<string, TweetData[]> = {};
     const maxTweetsPerList = parseInt(
       (this.getConfig('MAX_TWEETS_PER_LIST', '50') as string)
     );
 
-    for (const list of this.twitterLists) {
-      logger.info(`Processing list: ${list.listId}`);
+    this.requests.startRun();
+    const sources = this.getSources().filter(
+      (source) => !sourceIds || sourceIds.includes(source.id)
+    );
+    for (const source of sources) {
+      const runReport: SourceRunReport = {
+        fetched: 0,
+        new: 0,
+        filtered: 0,
+        published: 0,
+        error: null,
+      };
+      sourceReports[source.id] = runReport;
+
+      if (!this.isLoggedIn) {
+        logger.warn(`Skipping ${source.type} source ${source.name}: not authenticated`);
+        runReport.error = 'Skipped: not authenticated';
+        continue;
+      }
+      if (this.requests.remaining === 0) {
+        logger.warn(
+          `Skipping ${source.type} source ${source.name}: request budget exhausted`
+        );
+        runReport.error = 'Skipped: request budget exhausted';
+        continue;
+      }
+      logger.info(`Processing ${source.type} source: ${source.name}`);
 
       try {
-        const tweets = await this.fetchListTweets(
-          list.listId,
-          maxTweetsPerList
+        const report = createFilterReport();
+        filterReports[source.id] = report;
+        const tweets = await this.fetchSourceTweets(
+          source,
+          maxTweetsPerList,
+          report,
+          runReport
+        );
+        runReport.new = report.evaluated;
+        runReport.filtered = report.evaluated - report.kept;
+        runReport.published = tweets.length;
+        this.tweetsFetched.inc({ source: source.id }, runReport.fetched);
+        this.tweetsFiltered.inc({ source: source.id }, runReport.filtered);
+        this.tweetsPublished.inc({ source: source.id }, runReport.published);
+        if (tweets.length > 0) {
+          this.lastPublished.set({ source: source.id }, Date.now() / 1000);
+        }
+        newTweets.push(...tweets);
+        if (tweets.length > 0) published[source.id] = tweets;
+        this.itemStore.merge(tweets, source.id);
+        tweets.forEach((tweet) =>
+          this.processedTweetIds.add(tweet.id, tweet.createdAt.getTime())
         );
-        allTweets.push(...tweets);
-        tweets.forEach((tweet) => this.processedTweetIds.add(tweet.id));
-        await new Promise((resolve) => setTimeout(resolve, 2000));
       } catch (error) {
-        logger.error(`Error processing list ${list.listId}:`, error);
+        logger.error(`Error processing source ${source.id}:`, error);
+        runReport.error = errorMessage(error);
+        this.recordFetchResult(source.id, error);
       }
     }
 
-    allTweets.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    for (const [sourceId, report] of Object.entries(filterReports)) {
+      const dropped = Object.entries(report.dropped)
+        .map(([rule, count]) => `${rule}=${count}`)
+        .join(', ');
+      logger.info(
+        `Filters for source ${sourceId}: kept ${report.kept}/${report.evaluated}${
+          dropped ? ` (dropped: ${dropped})` : ''
+        }`
+      );
+    }
 
     const maxEntries = parseInt(
       (this.getConfig('MAX_RSS_ENTRIES', '500') as string)
     );
-    const limitedTweets = allTweets.slice(0, maxEntries);
 
-    const rssXML = await this.generateRSSFeed(limitedTweets);
-    const rssPath = await this.saveRSSFeed(rssXML);
+    // New tweets were merged into the persistent store above and every feed
+    // is rendered from the stored window, so items survive between runs.
+    this.itemStore.prune(maxEntries);
+    await this.itemStore.save();
+
+    const feedTweets = this.itemStore.getRecent(maxEntries);
+    const rssPath = await this.saveFeeds(feedTweets);
+
+    for (const source of sources) {
+      await this.saveFeeds(
+        this.itemStore.getRecent(maxEntries, source.id),
+        source
+      );
+    }
 
     await this.saveProcessedTweetIds();
+    // Hubs and subscribers can take seconds each; like webhooks, they must
+    // not hold up the next run.
+    this.publishFeedUpdates(
+      sources.filter((source) => sourceReports[source.id].published > 0)
+    ).catch((error) =>
+      logger.error('Failed to publish feed updates over WebSub:', error)
+    );
+    this.notifyItemsPublished(this.itemStore.getPublishedSince(sequenceBefore));
 
     return {
-      totalTweets: limitedTweets.length,
+      totalTweets: newTweets.length,
+      feedItems: feedTweets.length,
       rssPath,
+      filterReports,
+      sources: sourceReports,
+      published,
     };
   }
 }
+
+function pass(message: string): HealthCheck {
+  return { status: 'pass', message };
+}
+
+function fail(message: string): HealthCheck {
+  return { status: 'fail', message };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Converts a scraped tweet timestamp to epoch milliseconds. The scraper
+ * reports Unix seconds; ISO strings and millisecond values pass through.
+ */
+function parseTweetTimestamp(timestamp: number | string): number {
+  if (typeof timestamp === 'number') {
+    return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+  }
+  return new Date(timestamp).getTime();
+}
@@ -0,0 +1,50 @@
+import { logger } from '@elizaos/core';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Twitter session cookies saved after a successful login, so a restart can
+ * reuse the session instead of logging in again. The file holds credentials
+ * and is written readable by the owner only.
+ */
+export class TwitterSessionStore {
+  constructor(private filePath: string) {}
+
+  static fromStateDir(
+    stateDir: string,
+    filename?: string
+  ): TwitterSessionStore {
+    return new TwitterSessionStore(
+      path.resolve(stateDir, filename || 'twitter_cookies.json')
+    );
+  }
+
+  /** Saved cookies as `Set-Cookie` strings, or null when none are saved. */
+  async load(): Promise<string[] | null> {
+    try {
+      const cookies = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      return Array.isArray(cookies) && cookies.length > 0
+        ? cookies.filter((cookie) => typeof cookie === 'string')
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(cookies: string[]): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(cookies, null, 2), {
+        mode: 0o600,
+      });
+      // `mode` only applies when the file is created.
+      await fs.chmod(this.filePath, 0o600);
+    } catch (error) {
+      logger.error('Failed to save Twitter session:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
@@ -0,0 +1,278 @@
+import { logger } from '@elizaos/core';
+import { createHmac, randomBytes } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/** A feed URL subscribers can follow, with the file it is served from. */
+export interface WebSubTopic {
+  url: string;
+  /** List or source ID, or undefined for the combined feed. */
+  sourceId?: string;
+  filePath: string;
+  contentType: string;
+}
+
+export interface WebSubRequest {
+  mode: 'subscribe' | 'unsubscribe';
+  topic: string;
+  callback: string;
+  leaseSeconds: number;
+  secret: string | null;
+}
+
+export interface WebSubSubscription {
+  topic: string;
+  callback: string;
+  secret: string | null;
+  expiresAt: string;
+}
+
+const DEFAULT_LEASE_SECONDS = 10 * 24 * 60 * 60;
+const MAX_LEASE_SECONDS = 30 * 24 * 60 * 60;
+const MIN_LEASE_SECONDS = 60;
+/** How long a callback may take to answer verification or delivery. */
+const CALLBACK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Parses a subscriber's `hub.*` form parameters, returning an error
+ * message when they are not a valid subscribe or unsubscribe request.
+ */
+export function parseWebSubRequest(
+  body: Record<string, unknown>
+): WebSubRequest | string {
+  const mode = body['hub.mode'];
+  const topic = body['hub.topic'];
+  const callback = body['hub.callback'];
+  const secret = body['hub.secret'];
+  if (mode !== 'subscribe' && mode !== 'unsubscribe') {
+    return 'hub.mode must be subscribe or unsubscribe';
+  }
+  if (typeof topic !== 'string' || !topic) return 'hub.topic is required';
+  if (typeof callback !== 'string' || !/^https?:\/\//.test(callback)) {
+    return 'hub.callback must be an http(s) URL';
+  }
+  if (
+    secret !== undefined &&
+    (typeof secret !== 'string' || secret.length >= 200)
+  ) {
+    return 'hub.secret must be shorter than 200 bytes';
+  }
+  const requestedLease = parseInt(String(body['hub.lease_seconds'] ?? ''));
+  return {
+    mode,
+    topic,
+    callback,
+    leaseSeconds: Math.min(
+      MAX_LEASE_SECONDS,
+      Math.max(MIN_LEASE_SECONDS, requestedLease || DEFAULT_LEASE_SECONDS)
+    ),
+    secret: typeof secret === 'string' && secret ? secret : null,
+  };
+}
+
+/**
+ * Tells an external WebSub hub that topics changed, so it fetches them and
+ * pushes them to its subscribers. Failures are logged and skipped.
+ */
+export async function publishToHub(
+  hubUrl: string,
+  topicUrls: string[]
+): Promise<void> {
+  await Promise.all(
+    topicUrls.map(async (topicUrl) => {
+      try {
+        const response = await fetch(hubUrl, {
+          method: 'POST',
+          body: new URLSearchParams({
+            'hub.mode': 'publish',
+            'hub.url': topicUrl,
+          }),
+          signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`Response status: ${response.status}`);
+        }
+      } catch (error) {
+        logger.warn(`Failed to notify WebSub hub of ${topicUrl}:`, error);
+      }
+    })
+  );
+}
+
+/**
+ * Built-in WebSub hub: verifies subscriber intent, keeps subscriptions in
+ * the state directory and pushes updated feeds to their callbacks, signed
+ * with the subscriber's secret when one was given.
+ */
+export class WebSubHub {
+  private subscriptions: WebSubSubscription[] = [];
+  private loaded = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  static fromStateDir(stateDir: string): WebSubHub {
+    return new WebSubHub(path.join(stateDir, 'websub_subscriptions.json'));
+  }
+
+  async load(): Promise<void> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.subscriptions = Array.isArray(stored) ? stored : [];
+    } catch {
+      this.subscriptions = [];
+    }
+    this.loaded = true;
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+    }
+  }
+
+  /** Active subscriptions, expired ones dropped. */
+  async list(): Promise<WebSubSubscription[]> {
+    await this.ensureLoaded();
+    const now = Date.now();
+    return this.subscriptions.filter(
+      (subscription) => Date.parse(subscription.expiresAt) > now
+    );
+  }
+
+  /**
+   * Confirms the request with the subscriber's callback (which must echo
+   * `hub.challenge`) and then applies it. Resolves with whether it was
+   * confirmed.
+   */
+  async verify(request: WebSubRequest): Promise<boolean> {
+    const challenge = randomBytes(16).toString('hex');
+    const url = new URL(request.callback);
+    url.searchParams.set('hub.mode', request.mode);
+    url.searchParams.set('hub.topic', request.topic);
+    url.searchParams.set('hub.challenge', challenge);
+    if (request.mode === 'subscribe') {
+      url.searchParams.set('hub.lease_seconds', String(request.leaseSeconds));
+    }
+
+    try {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+      if (!response.ok || (await response.text()).trim() !== challenge) {
+        logger.warn(
+          `WebSub ${request.mode} for ${request.callback} was not confirmed`
+        );
+        return false;
+      }
+    } catch (error) {
+      logger.warn(
+        `Failed to verify WebSub callback ${request.callback}:`,
+        error
+      );
+      return false;
+    }
+
+    await this.ensureLoaded();
+    this.subscriptions = this.subscriptions.filter(
+      (subscription) =>
+        subscription.topic !== request.topic ||
+        subscription.callback !== request.callback
+    );
+    if (request.mode === 'subscribe') {
+      this.subscriptions.push({
+        topic: request.topic,
+        callback: request.callback,
+        secret: request.secret,
+        expiresAt: new Date(
+          Date.now() + request.leaseSeconds * 1000
+        ).toISOString(),
+      });
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Pushes the current content of each topic to its subscribers. Returns
+   * the number of successful deliveries.
+   */
+  async distribute(topics: WebSubTopic[], hubUrl: string): Promise<number> {
+    const subscriptions = await this.list();
+    // Deliveries run side by side, so a slow subscriber holds up no other.
+    const results = await Promise.all(
+      topics.map(async (topic) => {
+        const subscribers = subscriptions.filter((s) => s.topic === topic.url);
+        if (subscribers.length === 0) return [];
+
+        const content = await fs.readFile(topic.filePath);
+        return Promise.all(
+          subscribers.map((subscription) =>
+            this.deliver(subscription, topic, content, hubUrl)
+          )
+        );
+      })
+    );
+    return results.flat().filter(Boolean).length;
+  }
+
+  private async deliver(
+    subscription: WebSubSubscription,
+    topic: WebSubTopic,
+    content: Buffer,
+    hubUrl: string
+  ): Promise<boolean> {
+    const headers: Record<string, string> = {
+      'Content-Type': `${topic.contentType}; charset=utf-8`,
+      Link: `<${hubUrl}>; rel="hub", <${topic.url}>; rel="self"`,
+    };
+    if (subscription.secret) {
+      headers['X-Hub-Signature'] = `sha256=${createHmac(
+        'sha256',
+        subscription.secret
+      )
+        .update(content)
+        .digest('hex')}`;
+    }
+
+    try {
+      const response = await fetch(subscription.callback, {
+        method: 'POST',
+        headers,
+        body: content,
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+      // 410 Gone means the subscriber no longer wants the topic.
+      if (response.status === 410) {
+        await this.remove(subscription);
+      }
+      return response.ok;
+    } catch (error) {
+      logger.warn(
+        `Failed to deliver ${topic.url} to ${subscription.callback}:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  private async remove(subscription: WebSubSubscription): Promise<void> {
+    this.subscriptions = this.subscriptions.filter((s) => s !== subscription);
+    await this.save();
+  }
+
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(
+          this.filePath,
+          JSON.stringify(this.subscriptions, null, 2)
+        );
+      } catch (error) {
+        logger.error('Failed to save WebSub subscriptions:', error);
+      }
+    });
+    return this.saving;
+  }
+}
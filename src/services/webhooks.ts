@@ -0,0 +1,259 @@
+import { logger } from '@elizaos/core';
+import { createHmac, randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { filterRuleSetSchema, passesRuleSet } from '../filters';
+import type { TweetData } from '../types';
+
+const webhookEndpointSchema = z
+  .object({
+    id: z.string().min(1),
+    url: z.string().url(),
+    /** Key of the HMAC-SHA256 signature sent with every delivery. */
+    secret: z.string().min(1),
+    /** List or source IDs to deliver; every source when omitted. */
+    sources: z.array(z.string().min(1)).optional(),
+    /** Include/exclude rules, as in the filters file, applied per endpoint. */
+    filters: filterRuleSetSchema.optional(),
+  })
+  .strict();
+
+export const webhookConfigSchema = z
+  .object({
+    endpoints: z.array(webhookEndpointSchema).default([]),
+  })
+  .strict();
+
+export type WebhookEndpoint = z.infer<typeof webhookEndpointSchema>;
+
+/** Body of a delivery: the new tweets of one run, keyed by list or source. */
+export interface WebhookPayload {
+  id: string;
+  runId: string;
+  endpoint: string;
+  timestamp: string;
+  lists: Record<string, TweetData[]>;
+}
+
+/** A delivery that failed permanently, appended to the dead-letter file. */
+export interface DeadLetter {
+  endpoint: string;
+  url: string;
+  failedAt: string;
+  attempts: number;
+  error: string;
+  payload: WebhookPayload;
+}
+
+export interface WebhookOptions {
+  /** Retries after the first attempt before a delivery is dead-lettered. */
+  maxRetries: number;
+  /** Delay before the first retry, doubled for each further retry. */
+  retryDelayMs: number;
+}
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+const DEAD_LETTER_FILE = 'webhook_dead_letters.jsonl';
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Outbound webhooks: after each run, POSTs the new tweets to every
+ * configured endpoint as JSON signed with the endpoint's secret. Failed
+ * deliveries are retried with backoff and, once retries run out or the
+ * endpoint rejects the payload, appended to a dead-letter file in the
+ * state directory.
+ */
+export class WebhookDispatcher {
+  private endpoints: WebhookEndpoint[] = [];
+  private loadedMtime: number | null = null;
+  private stopped = new AbortController();
+
+  constructor(
+    private filePath: string,
+    private deadLetterPath: string,
+    private options: WebhookOptions
+  ) {}
+
+  static fromStateDir(
+    stateDir: string,
+    options: WebhookOptions,
+    filename?: string
+  ): WebhookDispatcher {
+    return new WebhookDispatcher(
+      path.resolve(stateDir, filename || 'webhooks.json'),
+      path.join(stateDir, DEAD_LETTER_FILE),
+      options
+    );
+  }
+
+  /**
+   * (Re)loads the endpoint file when it changed since the last load. A
+   * missing file means no endpoints; an invalid file keeps the previous ones.
+   */
+  async load(): Promise<void> {
+    let mtime: number;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch {
+      this.endpoints = [];
+      this.loadedMtime = null;
+      return;
+    }
+    if (mtime === this.loadedMtime) return;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.endpoints = webhookConfigSchema.parse(data).endpoints;
+      this.loadedMtime = mtime;
+      logger.info(
+        `Loaded ${this.endpoints.length} webhook endpoints from ${this.filePath}`
+      );
+    } catch (error: any) {
+      const message =
+        error instanceof z.ZodError
+          ? error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')
+          : error.message;
+      logger.warn(`Ignoring invalid webhooks in ${this.filePath}: ${message}`);
+    }
+  }
+
+  /**
+   * Delivers the tweets a run published, keyed by source ID, to every
+   * endpoint that has at least one matching tweet. Resolves once each
+   * delivery succeeded or was dead-lettered, with the number delivered.
+   */
+  async dispatch(
+    runId: string,
+    published: Record<string, TweetData[]>
+  ): Promise<number> {
+    await this.load();
+    const deliveries = this.endpoints.flatMap((endpoint) => {
+      const lists = selectTweets(endpoint, published);
+      if (Object.keys(lists).length === 0) return [];
+      return [
+        this.deliver(endpoint, {
+          id: randomUUID(),
+          runId,
+          endpoint: endpoint.id,
+          timestamp: new Date().toISOString(),
+          lists,
+        }),
+      ];
+    });
+    const results = await Promise.all(deliveries);
+    return results.filter(Boolean).length;
+  }
+
+  /** Cancels pending retries; their deliveries are dead-lettered. */
+  stop(): void {
+    this.stopped.abort();
+  }
+
+  private async deliver(
+    endpoint: WebhookEndpoint,
+    payload: WebhookPayload
+  ): Promise<boolean> {
+    const body = JSON.stringify(payload);
+    const signature = createHmac('sha256', endpoint.secret)
+      .update(body)
+      .digest('hex');
+
+    let error = '';
+    let attempts = 0;
+    while (attempts <= this.options.maxRetries) {
+      if (attempts > 0) {
+        await this.wait(this.options.retryDelayMs * 2 ** (attempts - 1));
+      }
+      if (this.stopped.signal.aborted) {
+        error = error
+          ? `${error}; stopped before retrying`
+          : 'Stopped before delivery';
+        break;
+      }
+      attempts++;
+
+      try {
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Id': payload.id,
+            [SIGNATURE_HEADER]: `sha256=${signature}`,
+          },
+          body,
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        if (response.ok) return true;
+        error = `Response status: ${response.status}`;
+        // Client errors other than timeouts and rate limits mean the
+        // endpoint rejects the payload itself; retrying will not help.
+        if (!isRetryableStatus(response.status)) break;
+      } catch (fetchError) {
+        error =
+          fetchError instanceof Error ? fetchError.message : String(fetchError);
+      }
+      logger.warn(
+        `Webhook delivery ${payload.id} to ${endpoint.id} failed (attempt ${attempts}): ${error}`
+      );
+    }
+
+    logger.error(
+      `Webhook delivery ${payload.id} to ${endpoint.id} failed permanently: ${error}`
+    );
+    await this.deadLetter({
+      endpoint: endpoint.id,
+      url: endpoint.url,
+      failedAt: new Date().toISOString(),
+      attempts,
+      error,
+      payload,
+    });
+    return false;
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const signal = this.stopped.signal;
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done, { once: true });
+      function done() {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      }
+    });
+  }
+
+  private async deadLetter(entry: DeadLetter): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.deadLetterPath), { recursive: true });
+      await fs.appendFile(this.deadLetterPath, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      logger.error('Failed to save webhook dead letter:', error);
+    }
+  }
+}
+
+/** The endpoint's share of a run's tweets, dropping sources left empty. */
+function selectTweets(
+  endpoint: WebhookEndpoint,
+  published: Record<string, TweetData[]>
+): Record<string, TweetData[]> {
+  const lists: Record<string, TweetData[]> = {};
+  for (const [sourceId, tweets] of Object.entries(published)) {
+    if (endpoint.sources && !endpoint.sources.includes(sourceId)) continue;
+    const { filters } = endpoint;
+    const selected = filters
+      ? tweets.filter((tweet) => passesRuleSet(tweet, filters))
+      : tweets;
+    if (selected.length > 0) lists[sourceId] = selected;
+  }
+  return lists;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
@@ -0,0 +1,128 @@
+import type { TweetSource, TwitterListConfig } from './types';
+
+/**
+ * Parses `TWITTER_LISTS`, a comma-separated list of list IDs, each
+ * optionally followed by a display name (`1234567890:Tech News`).
+ */
+export function parseTwitterLists(value?: string | null): TwitterListConfig[] {
+  return splitEntries(value).map((entry) => {
+    const [listId, name] = splitName(entry);
+    return { listId, name: name || `List ${listId}` };
+  });
+}
+
+/**
+ * Parses `TWITTER_USERS`, a comma-separated list of usernames whose
+ * timelines become sources, each optionally named (`jack:Jack Dorsey`).
+ */
+export function parseTwitterUsers(value?: string | null): TweetSource[] {
+  return splitEntries(value).map((entry) => {
+    const [handle, name] = splitName(entry);
+    const username = handle.replace(/^@/, '');
+    return {
+      id: `user-${slugify(username)}`,
+      type: 'user',
+      query: username,
+      name: name || `@${username}`,
+    };
+  });
+}
+
+/**
+ * Parses `TWITTER_SEARCHES`, a comma-separated list of search queries or
+ * hashtags (`#elizaos`). Queries may contain `:` operators, so they are not
+ * named.
+ */
+export function parseTwitterSearches(value?: string | null): TweetSource[] {
+  return splitEntries(value).map((query) => ({
+    id: `search-${slugify(query)}`,
+    type: 'search',
+    query,
+    name: query,
+  }));
+}
+
+/**
+ * Every source configured through `TWITTER_LISTS`, `TWITTER_USERS` and
+ * `TWITTER_SEARCHES`: lists first, then user timelines and searches.
+ */
+export function parseTweetSources(
+  getSetting: (key: string) => string | null | undefined
+): TweetSource[] {
+  return [
+    ...parseTwitterLists(getSetting('TWITTER_LISTS')).map(listSource),
+    ...parseTwitterUsers(getSetting('TWITTER_USERS')),
+    ...parseTwitterSearches(getSetting('TWITTER_SEARCHES')),
+  ];
+}
+
+/**
+ * The list ID in a list URL (`https://x.com/i/lists/1234567890`, also on
+ * twitter.com) or a bare list ID; null when `value` holds neither.
+ */
+export function parseListReference(value: string): string | null {
+  const url = /(?:twitter|x)\.com\/i\/lists\/(\d+)/i.exec(value);
+  if (url) return url[1];
+  const id = /(?:^|\s)(\d{5,})(?=\s|$|[.,!?])/.exec(value);
+  return id ? id[1] : null;
+}
+
+export function listSource(list: TwitterListConfig): TweetSource {
+  return {
+    id: list.listId,
+    type: 'list',
+    query: list.listId,
+    name: list.name || `List ${list.listId}`,
+    description: list.description,
+  };
+}
+
+/** Page on Twitter that a source's feed links back to. */
+export function sourceLink(source: TweetSource): string {
+  switch (source.type) {
+    case 'list':
+      return `https://twitter.com/i/lists/${source.query}`;
+    case 'user':
+      return `https://twitter.com/${encodeURIComponent(source.query)}`;
+    case 'search':
+      return `https://twitter.com/search?q=${encodeURIComponent(
+        source.query
+      )}&f=live`;
+  }
+}
+
+export function sourceDescription(source: TweetSource): string {
+  if (source.description) return source.description;
+  switch (source.type) {
+    case 'list':
+      return `Tweets from Twitter list ${source.name}`;
+    case 'user':
+      return `Tweets from @${source.query}`;
+    case 'search':
+      return `Tweets matching ${source.query}`;
+  }
+}
+
+function splitEntries(value?: string | null): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function splitName(entry: string): [string, string] {
+  const separator = entry.indexOf(':');
+  if (separator === -1) return [entry, ''];
+  return [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+}
+
+/** Lowercase, dash-separated form of a username or query used in IDs. */
+export function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'query'
+  );
+}
@@ -0,0 +1,142 @@
+export interface TwitterListConfig {
+  listId: string;
+  name?: string;
+  description?: string;
+  lastProcessedTweetId?: string;
+}
+
+export type TweetSourceType = 'list' | 'user' | 'search';
+
+/** Anything tweets are fetched from: a list, a user timeline or a search. */
+export interface TweetSource {
+  /** Stable ID used for per-source feeds and filter rules. */
+  id: string;
+  type: TweetSourceType;
+  /** List ID, username or search query, depending on `type`. */
+  query: string;
+  name: string;
+  description?: string;
+}
+
+export interface RawTweetData {
+  id?: string;
+  text?: string;
+  username?: string;
+  name?: string;
+  isVerified?: boolean;
+  timestamp?: number | string;
+  isRetweet?: boolean;
+  isReply?: boolean;
+  inReplyToStatusId?: string;
+  retweetedStatus?: any;
+  quotedStatus?: any;
+  photos?: Array<{ url: string; alt_text?: string }>;
+  videos?: Array<{ url?: string; preview: string }>;
+  likes?: number;
+  retweets?: number;
+  thread?: RawTweetData[];
+  replies?: number;
+  [key: string]: any;
+}
+
+export interface TweetData {
+  id: string;
+  text: string;
+  author: {
+    username: string;
+    name: string;
+    verified?: boolean;
+  };
+  createdAt: Date;
+  url: string;
+  isRetweet: boolean;
+  isReply: boolean;
+  /** Language code when the source reports one. */
+  lang?: string;
+  replyToTweetId?: string;
+  retweetedTweet?: TweetData;
+  quotedTweet?: TweetData;
+  media?: Array<{
+    type: string;
+    url: string;
+    alt?: string;
+    /** Poster image for videos. */
+    preview?: string;
+  }>;
+  metrics?: {
+    likes: number;
+    retweets: number;
+    replies: number;
+  };
+  thread?: TweetData[];
+}
+
+/** Format-neutral feed item, rendered as RSS 2.0, Atom 1.0 or JSON Feed 1.1. */
+export interface FeedItem {
+  id: string;
+  title: string;
+  /** Plain-text body. */
+  content: string;
+  /** HTML body with inline media, quotes and threads. */
+  contentHtml: string;
+  /** Primary image, exposed as an enclosure where the format has one. */
+  image?: {
+    url: string;
+    type: string;
+  };
+  link: string;
+  published: Date;
+  author: {
+    name: string;
+    username: string;
+    url: string;
+  };
+  categories: string[];
+}
+
+/** Format-neutral feed, built once per run and rendered in every format. */
+export interface FeedModel {
+  title: string;
+  description: string;
+  /** Page the feed is about, e.g. the Twitter list. */
+  link: string;
+  /** Time of the newest item, or of the build when the feed is empty. */
+  updated: Date;
+  items: FeedItem[];
+  /** WebSub hub that pushes updates of the feed, if any. */
+  hub?: string;
+}
+
+/** Fetch failures of one source, surfaced in `/status`. */
+export interface SourceFailureStats {
+  consecutiveFailures: number;
+  totalFailures: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+}
+
+/** What one update run did for one list or source. */
+export interface SourceRunReport {
+  /** Tweets Twitter returned. */
+  fetched: number;
+  /** Fetched tweets that were not processed before. */
+  new: number;
+  /** New tweets dropped by filters. */
+  filtered: number;
+  /** New tweets added to the feeds. */
+  published: number;
+  /** Why the fetch failed or the source was skipped. */
+  error: string | null;
+}
+
+export interface HealthCheck {
+  status: 'pass' | 'fail';
+  message: string;
+}
+
+/** Outcome of the readiness checks behind `/health/ready`. */
+export interface ReadinessReport {
+  ready: boolean;
+  checks: Record<string, HealthCheck>;
+}